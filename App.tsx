@@ -1,23 +1,225 @@
-import React, { useState } from 'react';
-import { Song, AppState } from './types';
-import { PRESET_SONGS } from './constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LibrarySong, AppState, InstrumentProfile, InstrumentSetup, Song } from './types';
+import { SongLibrary, getBuiltInSongs } from './services/songLibrary';
+import { INSTRUMENT_PROFILES, TUNING_PRESETS } from './constants';
 import { SongCard } from './components/SongCard';
 import { TutorInterface } from './components/TutorInterface';
-import { Music } from 'lucide-react';
+import { TunerScreen } from './components/TunerScreen';
+import { SongEditor } from './components/SongEditor';
+import { ImportReport } from './components/ImportReport';
+import { MidiImport } from './components/MidiImport';
+import {
+  getOutOfRangeNotes,
+  getTunedStrings,
+  loadInstrument,
+  loadInstrumentSetup,
+  saveInstrument,
+  saveInstrumentSetup,
+} from './services/instruments';
+import {
+  MockSongProvider,
+  SONG_DIFFICULTIES,
+  SongDifficulty,
+  SongGenerationError,
+  SongProvider,
+  generateSong,
+} from './services/songGeneration';
+import { GeminiSongProvider } from './services/geminiSongProvider';
+import { importMusicXmlFile } from './services/musicXml';
+import { MidiFile, isMidiFile, parseMidiFile } from './services/midiFile';
+import { ImportedSong } from './services/songImport';
+import { AlertTriangle, Gauge, Loader2, Music, Plus, RotateCcw, Sparkles, Upload, X } from 'lucide-react';
+
+// Gemini when an API key is configured; the offline composer always works
+const SONG_PROVIDERS: SongProvider[] = [
+  ...(process.env.API_KEY ? [new GeminiSongProvider(process.env.API_KEY)] : []),
+  new MockSongProvider(),
+];
 
 export default function App() {
-  const [songs] = useState<Song[]>(PRESET_SONGS);
-  const [currentSong, setCurrentSong] = useState<Song | null>(null);
+  // The presets are shown until the saved library has loaded
+  const [library, setLibrary] = useState<SongLibrary | null>(null);
+  const [songs, setSongs] = useState<LibrarySong[]>(getBuiltInSongs);
+  const [currentSong, setCurrentSong] = useState<LibrarySong | null>(null);
+  // Song open in the editor, null while writing a new one
+  const [editingSong, setEditingSong] = useState<LibrarySong | null>(null);
   const [appState, setAppState] = useState<AppState>(AppState.MENU);
+  const [instrument, setInstrument] = useState<InstrumentProfile>(loadInstrument);
+  const [instrumentSetup, setInstrumentSetup] = useState<InstrumentSetup>(() =>
+    loadInstrumentSetup(instrument)
+  );
+  const [showAllSongs, setShowAllSongs] = useState(false);
+  const [songPrompt, setSongPrompt] = useState('');
+  const [songDifficulty, setSongDifficulty] = useState<SongDifficulty>('Easy');
+  const [providerId, setProviderId] = useState(SONG_PROVIDERS[0].id);
+  const [generationError, setGenerationError] = useState<Error | null>(null);
+  // Bumped to ignore a request that was cancelled or replaced
+  const generationRef = useRef(0);
+  // A score read from a file, waiting for the user to add it
+  const [importedSong, setImportedSong] = useState<ImportedSong | null>(null);
+  // A MIDI file waiting for its melody and bass parts to be picked
+  const [midiImport, setMidiImport] = useState<{ midi: MidiFile; fileName: string } | null>(null);
+  // An import opened in the tutor before it is saved
+  const [previewSong, setPreviewSong] = useState<Song | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    SongLibrary.open().then((opened) => {
+      if (isCancelled) return;
+      setLibrary(opened);
+      setSongs(opened.getSongs());
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  // Pitch of every string with the current tuning and levers
+  const tunedStrings = useMemo(
+    () => getTunedStrings(instrument, instrumentSetup),
+    [instrument, instrumentSetup]
+  );
+
+  // Notes each song needs that the chosen lyre does not have
+  const songRanges = useMemo(
+    () => songs.map((song) => ({ song, outOfRange: getOutOfRangeNotes(song, tunedStrings) })),
+    [songs, tunedStrings]
+  );
+  const playableCount = songRanges.filter(({ outOfRange }) => outOfRange.length === 0).length;
+  const visibleSongs = showAllSongs
+    ? songRanges
+    : songRanges.filter(({ outOfRange }) => outOfRange.length === 0);
+
+  const handleSelectInstrument = (profile: InstrumentProfile) => {
+    setInstrument(profile);
+    setInstrumentSetup(loadInstrumentSetup(profile));
+    saveInstrument(profile);
+  };
 
-  const handleSelectSong = (song: Song) => {
+  const handleChangeSetup = (setup: InstrumentSetup) => {
+    setInstrumentSetup(setup);
+    saveInstrumentSetup(instrument, setup);
+  };
+
+  const toggleLever = (note: string) => {
+    const levers = instrumentSetup.levers.includes(note)
+      ? instrumentSetup.levers.filter((lever) => lever !== note)
+      : [...instrumentSetup.levers, note];
+    handleChangeSetup({ ...instrumentSetup, levers });
+  };
+
+  const handleSelectSong = (song: LibrarySong) => {
     setCurrentSong(song);
     setAppState(AppState.PLAYING);
   };
 
   const handleBack = () => {
+    generationRef.current++;
     setAppState(AppState.MENU);
     setCurrentSong(null);
+    setEditingSong(null);
+    setGenerationError(null);
+  };
+
+  const handleEditSong = (song: LibrarySong | null) => {
+    setEditingSong(song);
+    setAppState(AppState.EDITING);
+  };
+
+  // The first save creates the song; later saves update it
+  const handleSaveSong = async (song: Song) => {
+    if (!library) return;
+    const saved = editingSong
+      ? await library.update(editingSong.id, song)
+      : await library.create(song);
+    setEditingSong(saved);
+    setSongs(library.getSongs());
+  };
+
+  // Write a song for the current strings and open it in the tutor
+  const handleGenerate = async () => {
+    const prompt = songPrompt.trim();
+    if (!prompt || !library) return;
+    const provider = SONG_PROVIDERS.find((p) => p.id === providerId) ?? SONG_PROVIDERS[0];
+    const generation = ++generationRef.current;
+    setGenerationError(null);
+    setAppState(AppState.GENERATING);
+    try {
+      const song = await generateSong(provider, {
+        prompt,
+        strings: tunedStrings,
+        difficulty: songDifficulty,
+      });
+      if (generation !== generationRef.current) return;
+      const saved = await library.create(song);
+      setSongs(library.getSongs());
+      handleSelectSong(saved);
+    } catch (e) {
+      if (generation !== generationRef.current) return;
+      console.error('Song generation failed:', e);
+      setGenerationError(e instanceof Error ? e : new Error(String(e)));
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  const handleDuplicateSong = async (song: LibrarySong) => {
+    if (!library) return;
+    await library.duplicate(song.id);
+    setSongs(library.getSongs());
+  };
+
+  const handleDeleteSong = async (song: LibrarySong) => {
+    if (!library) return;
+    if (song.source === 'user' && !window.confirm(`Delete "${song.title}"? This can't be undone.`)) {
+      return;
+    }
+    await library.delete(song.id);
+    setSongs(library.getSongs());
+  };
+
+  const handleImportFile = async (file: File) => {
+    setImportError(null);
+    try {
+      const buffer = await file.arrayBuffer();
+      if (isMidiFile(buffer)) {
+        setMidiImport({ midi: parseMidiFile(buffer), fileName: file.name.replace(/\.[^.]+$/, '') });
+      } else {
+        setImportedSong(await importMusicXmlFile(file));
+      }
+    } catch (e) {
+      console.error(`Import of ${file.name} failed:`, e);
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleCloseImport = () => {
+    setImportedSong(null);
+    setMidiImport(null);
+  };
+
+  const handleAddImported = async (song: Song) => {
+    if (!library) return;
+    await library.create(song);
+    setSongs(library.getSongs());
+    handleCloseImport();
+  };
+
+  const handlePreviewImport = (song: Song) => {
+    setPreviewSong(song);
+    setAppState(AppState.PLAYING);
+  };
+
+  const handleEndPreview = () => {
+    setPreviewSong(null);
+    setAppState(AppState.MENU);
+  };
+
+  const handleRestoreBuiltIns = async () => {
+    if (!library) return;
+    await library.restoreBuiltIns();
+    setSongs(library.getSongs());
   };
 
   return (
@@ -39,30 +241,327 @@ export default function App() {
 
           <div className="flex-1 overflow-y-auto px-4 md:px-8 pb-20 md:pb-8">
             <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+              {/* Instrument */}
+              <section>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-slate-300">Your Lyre</h2>
+                  <button
+                    onClick={() => setAppState(AppState.TUNER)}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:border-indigo-500 hover:text-white text-sm transition-colors"
+                  >
+                    <Gauge size={16} />
+                    Tune Strings
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                  {INSTRUMENT_PROFILES.map((profile) => (
+                    <button
+                      key={profile.id}
+                      onClick={() => handleSelectInstrument(profile)}
+                      className={`flex flex-col items-center p-2 sm:p-3 rounded-xl border transition-all ${
+                        profile.id === instrument.id
+                          ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/20'
+                          : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-indigo-500'
+                      }`}
+                      title={`${profile.name}, tuned to ${profile.defaultTuning}`}
+                    >
+                      <span className="font-bold text-lg">{profile.strings.length}</span>
+                      <span className="text-[10px] sm:text-xs opacity-80">
+                        {profile.lowestNote}–{profile.highestNote}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Tuning */}
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <span className="text-sm text-slate-400 mr-1">Tuning</span>
+                  {TUNING_PRESETS.map((tuning) => (
+                    <button
+                      key={tuning.id}
+                      onClick={() => handleChangeSetup({ ...instrumentSetup, tuningId: tuning.id })}
+                      className={`px-3 py-1 rounded-lg text-xs sm:text-sm font-medium transition-colors ${
+                        tuning.id === instrumentSetup.tuningId
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                      }`}
+                    >
+                      {tuning.name}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Sharping levers, one per string */}
+                <div className="mt-3">
+                  <span className="text-xs text-slate-500">Levers (tap a string to raise it a semitone)</span>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {instrument.strings.map((note, index) => {
+                      const isRaised = instrumentSetup.levers.includes(note);
+                      return (
+                        <button
+                          key={note}
+                          onClick={() => toggleLever(note)}
+                          className={`min-w-[2.5rem] px-1.5 py-1 rounded-md text-[10px] sm:text-xs font-mono transition-colors ${
+                            isRaised
+                              ? 'bg-amber-500/20 text-amber-300 border border-amber-500/50'
+                              : 'bg-slate-800 text-slate-400 border border-slate-700 hover:border-slate-500'
+                          }`}
+                          title={isRaised ? `Lever up: ${note} sounds ${tunedStrings[index]}` : `Raise ${tunedStrings[index]}`}
+                        >
+                          {tunedStrings[index]}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </section>
+
               {/* Song List */}
               <section>
-                <h2 className="text-xl font-semibold mb-4 text-slate-300">Song Library</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-slate-300">Song Library</h2>
+                  <div className="flex items-center gap-3">
+                    {library && (
+                      <button
+                        onClick={() => handleEditSong(null)}
+                        className="flex items-center gap-1 text-xs sm:text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                      >
+                        <Plus size={14} />
+                        New song
+                      </button>
+                    )}
+                    {library && (
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1 text-xs sm:text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        title="Import a MusicXML (.musicxml, .mxl) or MIDI (.mid) file"
+                      >
+                        <Upload size={14} />
+                        Import
+                      </button>
+                    )}
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".musicxml,.mxl,.xml,.mid,.midi"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleImportFile(file);
+                      }}
+                    />
+                    {library?.hasChangedBuiltIns() && (
+                      <button
+                        onClick={handleRestoreBuiltIns}
+                        className="flex items-center gap-1 text-xs sm:text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                        title="Bring back deleted built-in songs and undo changes to them"
+                      >
+                        <RotateCcw size={14} />
+                        Restore built-ins
+                      </button>
+                    )}
+                    {playableCount < songs.length && (
+                      <button
+                        onClick={() => setShowAllSongs(!showAllSongs)}
+                        className="text-xs sm:text-sm text-slate-400 hover:text-indigo-400 transition-colors"
+                      >
+                        {showAllSongs
+                          ? `Only songs for ${instrument.strings.length} strings`
+                          : `Show all (${songs.length - playableCount} out of range)`}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {importError && (
+                  <div className="flex items-start gap-2 mb-4 p-3 rounded-lg bg-red-900/20 border border-red-500/40 text-sm text-red-300">
+                    <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                    <span className="flex-1">{importError}</span>
+                    <button onClick={() => setImportError(null)} className="text-red-300 hover:text-white">
+                      <X size={16} />
+                    </button>
+                  </div>
+                )}
+
+                {/* Generate a song for this lyre */}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleGenerate();
+                  }}
+                  className="flex flex-col sm:flex-row gap-2 mb-4"
+                >
+                  <input
+                    type="text"
+                    value={songPrompt}
+                    onChange={(e) => setSongPrompt(e.target.value)}
+                    placeholder="Title or mood, e.g. Autumn rain"
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                  />
+                  <div className="flex gap-2">
+                    <select
+                      value={songDifficulty}
+                      onChange={(e) => setSongDifficulty(e.target.value as SongDifficulty)}
+                      className="px-2 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-300"
+                    >
+                      {SONG_DIFFICULTIES.map((difficulty) => (
+                        <option key={difficulty} value={difficulty}>{difficulty}</option>
+                      ))}
+                    </select>
+                    {SONG_PROVIDERS.length > 1 && (
+                      <select
+                        value={providerId}
+                        onChange={(e) => setProviderId(e.target.value)}
+                        className="px-2 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-300"
+                      >
+                        {SONG_PROVIDERS.map((provider) => (
+                          <option key={provider.id} value={provider.id}>{provider.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={!songPrompt.trim() || !library}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:hover:bg-indigo-600 text-white text-sm font-medium transition-colors"
+                    >
+                      <Sparkles size={16} />
+                      Generate
+                    </button>
+                  </div>
+                </form>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {songs.map((song, index) => (
+                  {visibleSongs.map(({ song, outOfRange }) => (
                     <SongCard 
-                      key={index + song.title} 
+                      key={song.id} 
                       song={song} 
+                      outOfRange={outOfRange}
                       onSelect={handleSelectSong} 
+                      onEdit={library ? handleEditSong : undefined}
+                      onDuplicate={library ? handleDuplicateSong : undefined}
+                      onDelete={library ? handleDeleteSong : undefined}
                     />
                   ))}
                 </div>
+                {visibleSongs.length === 0 && (
+                  <p className="text-slate-500 text-sm text-center py-8">
+                    No songs fit a {instrument.name} yet.
+                  </p>
+                )}
               </section>
             </div>
           </div>
         </>
       )}
 
-      {appState === AppState.PLAYING && currentSong && (
+      {/* Kept mounted during a preview so the import's choices survive it */}
+      {(importedSong || midiImport) && (
+        <div className={appState === AppState.MENU ? '' : 'hidden'}>
+          {midiImport ? (
+            <MidiImport
+              midi={midiImport.midi}
+              fileName={midiImport.fileName}
+              instrument={instrument}
+              tunedStrings={tunedStrings}
+              onAdd={handleAddImported}
+              onPreview={handlePreviewImport}
+              onCancel={handleCloseImport}
+            />
+          ) : (
+            importedSong && (
+              <ImportReport
+                imported={importedSong}
+                instrument={instrument}
+                tunedStrings={tunedStrings}
+                onAdd={handleAddImported}
+                onPreview={handlePreviewImport}
+                onCancel={handleCloseImport}
+              />
+            )
+          )}
+        </div>
+      )}
+
+      {appState === AppState.GENERATING && (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-8 text-center animate-in fade-in duration-300">
+          <Loader2 size={40} className="animate-spin text-indigo-400" />
+          <p className="text-slate-300">Composing “{songPrompt.trim()}” for {instrument.strings.length} strings…</p>
+          <button
+            onClick={handleBack}
+            className="px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-white text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {appState === AppState.ERROR && (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-8 animate-in fade-in duration-300">
+          <AlertTriangle size={40} className="text-amber-400" />
+          <h2 className="text-xl font-semibold text-slate-200">Couldn't generate a playable song</h2>
+          {generationError instanceof SongGenerationError && generationError.problems.length > 0 ? (
+            <ul className="max-w-md max-h-48 overflow-y-auto text-sm text-slate-400 list-disc pl-5 space-y-1">
+              {generationError.problems.map((problem, index) => (
+                <li key={index}>{problem}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="max-w-md text-sm text-slate-400 text-center">{generationError?.message}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerate}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium transition-colors"
+            >
+              Try again
+            </button>
+            <button
+              onClick={handleBack}
+              className="px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-white text-sm transition-colors"
+            >
+              Back to library
+            </button>
+          </div>
+        </div>
+      )}
+
+      {appState === AppState.PLAYING && previewSong && (
+        <TutorInterface
+          song={previewSong}
+          instrument={instrument}
+          instrumentSetup={instrumentSetup}
+          onBack={handleEndPreview}
+          isPreview
+        />
+      )}
+
+      {appState === AppState.PLAYING && !previewSong && currentSong && (
         <TutorInterface 
           song={currentSong} 
+          instrument={instrument}
+          instrumentSetup={instrumentSetup}
           onBack={handleBack} 
         />
       )}
+
+      {appState === AppState.EDITING && (
+        <SongEditor
+          song={editingSong}
+          instrument={instrument}
+          instrumentSetup={instrumentSetup}
+          onSave={handleSaveSong}
+          onBack={handleBack}
+        />
+      )}
+
+      {appState === AppState.TUNER && (
+        <TunerScreen
+          instrument={instrument}
+          instrumentSetup={instrumentSetup}
+          onBack={handleBack}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
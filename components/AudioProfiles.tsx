@@ -0,0 +1,224 @@
+import {
+  Copy,
+  Download,
+  Link,
+  Pencil,
+  Trash2,
+  Unlink,
+  Upload,
+} from "lucide-react";
+import React, { useRef, useState } from "react";
+import {
+  InvalidProfileError,
+  ProfileStore,
+  assignDevice,
+  deleteProfile,
+  duplicateProfile,
+  exportProfiles,
+  getActiveProfile,
+  importProfiles,
+  renameProfile,
+  setActiveProfile,
+} from "../services/profileStore";
+
+interface AudioProfilesProps {
+  store: ProfileStore;
+  deviceId: string | null; // Microphone in use, null when not listening
+  onChange: (store: ProfileStore) => void;
+}
+
+const iconButtonClass =
+  "p-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 transition-colors";
+
+/**
+ * Pick, manage, export and import named sets of audio settings
+ */
+export const AudioProfiles: React.FC<AudioProfilesProps> = ({
+  store,
+  deviceId,
+  onChange,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [message, setMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = getActiveProfile(store);
+
+  const commitRename = (name: string) => {
+    onChange(renameProfile(store, active.id, name));
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete profile "${active.name}"?`)) return;
+    onChange(deleteProfile(store, active.id));
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles(store.profiles)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "lyrehero-audio-profiles.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { store: next, imported } = importProfiles(store, await file.text());
+      onChange(next);
+      setMessage({
+        text: `Imported ${imported.map((profile) => profile.name).join(", ")}`,
+        isError: false,
+      });
+    } catch (e) {
+      if (!(e instanceof InvalidProfileError)) {
+        console.error("Profile import failed:", e);
+      }
+      setMessage({
+        text:
+          e instanceof InvalidProfileError
+            ? e.message
+            : `Import failed: ${e instanceof Error ? e.message : String(e)}`,
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/70 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-indigo-300">🎙️ Audio Profile</h4>
+        <span className="text-[10px] text-slate-500">
+          Gain, thresholds and string calibration
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        {isRenaming ? (
+          <input
+            type="text"
+            autoFocus
+            defaultValue={active.name}
+            onBlur={(e) => commitRename(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename(e.currentTarget.value);
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+            className="flex-1 min-w-0 bg-slate-800 border border-indigo-500 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none"
+            aria-label="Profile name"
+          />
+        ) : (
+          <select
+            value={active.id}
+            onChange={(e) => {
+              onChange(setActiveProfile(store, e.target.value));
+              setMessage(null);
+            }}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+            aria-label="Audio profile"
+          >
+            {store.profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+                {profile.deviceId && profile.deviceId === deviceId
+                  ? " (this microphone)"
+                  : ""}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setIsRenaming(true)}
+          className={iconButtonClass}
+          title="Rename profile"
+        >
+          <Pencil size={16} />
+        </button>
+        <button
+          onClick={() => onChange(duplicateProfile(store, active.id))}
+          className={iconButtonClass}
+          title="Duplicate profile"
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={store.profiles.length < 2}
+          className={iconButtonClass}
+          title="Delete profile"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {deviceId &&
+          (active.deviceId === deviceId ? (
+            <button
+              onClick={() => onChange(assignDevice(store, active.id, undefined))}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-green-700/30 border border-green-500/50 text-green-300 hover:bg-green-700/50"
+              title="Stop selecting this profile automatically"
+            >
+              <Unlink size={14} />
+              Used for this microphone
+            </button>
+          ) : (
+            <button
+              onClick={() => onChange(assignDevice(store, active.id, deviceId))}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700 hover:bg-slate-600 text-slate-200"
+              title="Select this profile whenever this microphone is used"
+            >
+              <Link size={14} />
+              Use for this microphone
+            </button>
+          ))}
+        <div className="flex-1" />
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700 hover:bg-slate-600 text-slate-200"
+          title="Save all profiles to a JSON file"
+        >
+          <Download size={14} />
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700 hover:bg-slate-600 text-slate-200"
+          title="Add profiles from a JSON file"
+        >
+          <Upload size={14} />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {message && (
+        <p
+          className={`text-xs ${
+            message.isError ? "text-red-400" : "text-green-400"
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import { AlertTriangle, CheckCircle2, FileMusic, Minus, Play, Plus, X } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { NoteRangeIssue } from "../services/instruments";
+import {
+  ImportedSong,
+  getRangeReport,
+  suggestTransposition,
+  transposeSong,
+} from "../services/songImport";
+import { getTimeSignature } from "../services/timing";
+import { InstrumentProfile, Song } from "../types";
+
+interface ImportReportProps {
+  imported: ImportedSong;
+  instrument: InstrumentProfile;
+  tunedStrings: string[];
+  onAdd: (song: Song) => Promise<void>;
+  onPreview?: (song: Song) => void;
+  onCancel: () => void;
+  children?: React.ReactNode; // Importer options, shown above the report
+}
+
+const ISSUE_LABELS: Record<NoteRangeIssue, string> = {
+  outOfRange: "Outside the strings",
+  accidental: "Not in the tuning (retune or use a lever)",
+  invalid: "Not a note",
+};
+
+const formatSemitones = (semitones: number): string =>
+  `${semitones > 0 ? "up" : "down"} ${Math.abs(semitones)} semitone${
+    Math.abs(semitones) === 1 ? "" : "s"
+  }`;
+
+/**
+ * What an import brought across and what the lyre can't play, with a
+ * suggested transposition, before the song goes into the library
+ */
+export const ImportReport: React.FC<ImportReportProps> = ({
+  imported,
+  instrument,
+  tunedStrings,
+  onAdd,
+  onPreview,
+  onCancel,
+  children,
+}) => {
+  const [semitones, setSemitones] = useState(0);
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const suggestion = useMemo(
+    () => suggestTransposition(imported.song, instrument, tunedStrings),
+    [imported, instrument, tunedStrings]
+  );
+  const song = useMemo(
+    () => transposeSong(imported.song, semitones),
+    [imported, semitones]
+  );
+  const report = useMemo(
+    () => getRangeReport(song, instrument, tunedStrings),
+    [song, instrument, tunedStrings]
+  );
+  const { beats, beatUnit } = getTimeSignature(song);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      await onAdd(song);
+    } catch (e) {
+      console.error("Adding the imported song failed:", e);
+      setAddError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const issueGroups = (Object.keys(ISSUE_LABELS) as NoteRangeIssue[])
+    .map((issue) => ({
+      issue,
+      notes: report.issues
+        .filter((entry) => entry.issue === issue)
+        .map((entry) => entry.note),
+    }))
+    .filter((group) => group.notes.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl max-h-[85vh] overflow-y-auto">
+        <div className="flex items-start justify-between gap-3 p-4 sm:p-6 border-b border-slate-700">
+          <div className="flex items-start gap-3 min-w-0">
+            <FileMusic className="text-indigo-400 flex-shrink-0 mt-1" size={22} />
+            <div className="min-w-0">
+              <h3 className="font-bold text-lg text-slate-100 truncate">{song.title}</h3>
+              <p className="text-xs text-slate-400">
+                {song.artist && `${song.artist} • `}
+                {song.notes.length} notes • {beats}/{beatUnit}
+                {song.bpm && ` • ${song.bpm} BPM`}
+              </p>
+              <p className="text-xs text-slate-500 mt-0.5">From {imported.source}</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+            title="Cancel"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4 text-sm">
+          {children}
+
+          {imported.warnings.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">
+                Simplified
+              </h4>
+              <ul className="list-disc pl-5 space-y-0.5 text-slate-300">
+                {imported.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-1">
+              On your {instrument.name}
+            </h4>
+            {report.unplayable === 0 ? (
+              <p className="flex items-center gap-2 text-green-400">
+                <CheckCircle2 size={16} />
+                Every note has a string.
+              </p>
+            ) : (
+              <div className="space-y-1 text-amber-300">
+                <p className="flex items-center gap-2">
+                  <AlertTriangle size={16} />
+                  {report.unplayable} of {song.notes.length} steps can't be played as set up.
+                </p>
+                {issueGroups.map(({ issue, notes }) => (
+                  <p key={issue} className="text-xs text-slate-400 pl-6">
+                    {ISSUE_LABELS[issue]}: <span className="font-mono text-slate-300">{notes.join(", ")}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Transposition */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-slate-400">Transpose</span>
+            <button
+              onClick={() => setSemitones(semitones - 1)}
+              disabled={semitones <= -12}
+              className="p-1 rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-40"
+              title="Down a semitone"
+            >
+              <Minus size={14} />
+            </button>
+            <span className="w-10 text-center font-mono text-slate-200">
+              {semitones > 0 ? `+${semitones}` : semitones}
+            </span>
+            <button
+              onClick={() => setSemitones(semitones + 1)}
+              disabled={semitones >= 12}
+              className="p-1 rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-40"
+              title="Up a semitone"
+            >
+              <Plus size={14} />
+            </button>
+            {suggestion && semitones !== suggestion.semitones && (
+              <button
+                onClick={() => setSemitones(suggestion.semitones)}
+                className="px-2 py-1 rounded-md bg-indigo-600/20 border border-indigo-500/50 text-indigo-300 hover:bg-indigo-600/30 text-xs"
+              >
+                Suggested: {formatSemitones(suggestion.semitones)}
+                {suggestion.unplayable === 0
+                  ? " (fits)"
+                  : ` (${suggestion.unplayable} steps left)`}
+              </button>
+            )}
+          </div>
+
+          {addError && (
+            <p className="flex items-start gap-2 p-3 rounded-lg bg-red-900/20 border border-red-500/40 text-red-300">
+              <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+              Couldn't add it: {addError}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 sm:p-6 pt-0">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg bg-slate-700 text-slate-300 hover:text-white text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          {onPreview && (
+            <button
+              onClick={() => onPreview(song)}
+              className="flex items-center gap-1 px-4 py-2 rounded-lg bg-slate-700 text-slate-300 hover:text-white text-sm transition-colors"
+              title="Open it in the tutor without saving"
+            >
+              <Play size={14} />
+              Preview
+            </button>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={isAdding}
+            className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm font-medium transition-colors"
+          >
+            Add to library
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
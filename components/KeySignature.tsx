@@ -0,0 +1,70 @@
+import React from "react";
+import { parsePitch } from "../services/pitch";
+import {
+  NOTE_CONTAINER_HEIGHT,
+  NOTE_SVG_HEIGHT,
+  STAFF_LINE_SPACING,
+  STAFF_VIEWBOX_HEIGHT,
+  getNotePosition,
+} from "./NoteCircle";
+
+interface KeySignatureProps {
+  sharps: string[]; // Letters in key signature order, e.g. ["F", "C"] for D major
+}
+
+// Where each sharp sits in a treble clef key signature
+const SHARP_NOTES: Record<string, string> = {
+  F: "F5",
+  C: "C5",
+  G: "G5",
+  D: "D5",
+  A: "A4",
+  E: "E5",
+  B: "B4",
+};
+
+const SHARP_SPACING = 12; // viewBox units between sharps
+
+/**
+ * Sharps at the start of the staff, drawn on the same grid as NoteCircle
+ * so they line up with its staff lines
+ */
+export const KeySignature: React.FC<KeySignatureProps> = ({ sharps }) => {
+  const staffCenterY = STAFF_VIEWBOX_HEIGHT / 2;
+  const viewBoxWidth = sharps.length * SHARP_SPACING + 8;
+
+  return (
+    <div
+      className="relative flex items-center justify-center"
+      style={{ height: `clamp(${NOTE_CONTAINER_HEIGHT.min}px, ${NOTE_CONTAINER_HEIGHT.preferred}, ${NOTE_CONTAINER_HEIGHT.max}px)` }}
+    >
+      <svg
+        viewBox={`0 0 ${viewBoxWidth} ${STAFF_VIEWBOX_HEIGHT}`}
+        style={{
+          height: `clamp(${NOTE_SVG_HEIGHT.min}px, ${NOTE_SVG_HEIGHT.preferred}, ${NOTE_SVG_HEIGHT.max}px)`,
+          overflow: "visible",
+        }}
+        preserveAspectRatio="xMidYMid meet"
+        aria-label={`Key signature: ${sharps.map((letter) => `${letter} sharp`).join(", ")}`}
+      >
+        {sharps.map((letter, index) => (
+          <text
+            key={letter}
+            x={4 + index * SHARP_SPACING + SHARP_SPACING / 2}
+            y={
+              staffCenterY -
+              getNotePosition(parsePitch(SHARP_NOTES[letter])) *
+                STAFF_LINE_SPACING
+            }
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize="20"
+            fill="#cbd5e1"
+          >
+            {"\u266F"}
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+};
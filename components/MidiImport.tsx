@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from "react";
+import { MidiFile, buildMidiSong, getDefaultMidiParts } from "../services/midiFile";
+import { InstrumentProfile, Song } from "../types";
+import { ImportReport } from "./ImportReport";
+
+interface MidiImportProps {
+  midi: MidiFile;
+  fileName: string;
+  instrument: InstrumentProfile;
+  tunedStrings: string[];
+  onAdd: (song: Song) => Promise<void>;
+  onPreview: (song: Song) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pick the melody and bass parts of a MIDI file, then review the song
+ */
+export const MidiImport: React.FC<MidiImportProps> = ({
+  midi,
+  fileName,
+  instrument,
+  tunedStrings,
+  onAdd,
+  onPreview,
+  onCancel,
+}) => {
+  const defaults = useMemo(() => getDefaultMidiParts(midi), [midi]);
+  const [melodyId, setMelodyId] = useState(defaults.melodyId);
+  const [bassId, setBassId] = useState<string | null>(defaults.bassId);
+
+  const imported = useMemo(
+    () => buildMidiSong(midi, melodyId, bassId, fileName),
+    [midi, melodyId, bassId, fileName]
+  );
+
+  const partLabel = (part: MidiFile["parts"][number]) =>
+    `${part.name} (${part.lowest}–${part.highest}, ${part.notes.length} notes)`;
+
+  return (
+    <ImportReport
+      imported={imported}
+      instrument={instrument}
+      tunedStrings={tunedStrings}
+      onAdd={onAdd}
+      onPreview={onPreview}
+      onCancel={onCancel}
+    >
+      <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+        <label htmlFor="midi-melody" className="text-slate-400">
+          Melody
+        </label>
+        <select
+          id="midi-melody"
+          value={melodyId}
+          onChange={(e) => {
+            setMelodyId(e.target.value);
+            if (e.target.value === bassId) setBassId(null);
+          }}
+          className="px-2 py-1 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 min-w-0"
+        >
+          {midi.parts.map((part) => (
+            <option key={part.id} value={part.id}>
+              {partLabel(part)}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="midi-bass" className="text-slate-400">
+          Bass
+        </label>
+        <select
+          id="midi-bass"
+          value={bassId ?? ""}
+          onChange={(e) => setBassId(e.target.value || null)}
+          className="px-2 py-1 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 min-w-0"
+        >
+          <option value="">None</option>
+          {midi.parts
+            .filter((part) => part.id !== melodyId)
+            .map((part) => (
+              <option key={part.id} value={part.id}>
+                {partLabel(part)}
+              </option>
+            ))}
+        </select>
+      </div>
+    </ImportReport>
+  );
+};
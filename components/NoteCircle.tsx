@@ -1,12 +1,23 @@
-import { CheckCircle2 } from "lucide-react";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
 import React from "react";
-import { NoteDuration } from "../types";
+import { getStaffStep, parsePitch, tryParsePitch } from "../services/pitch";
+import { NoteDuration, Pitch } from "../types";
 
 // Layout constants for consistent sizing across zoom levels
-const NOTE_CONTAINER_HEIGHT = { min: 144, preferred: '20vw', max: 176 }; // Container height in pixels/vw
+export const NOTE_CONTAINER_HEIGHT = { min: 144, preferred: '20vw', max: 176 }; // Container height in pixels/vw
 const NOTE_SVG_WIDTH = { min: 80, preferred: '12vw', max: 96 }; // SVG width in pixels/vw
-const NOTE_SVG_HEIGHT = { min: 112, preferred: '16vw', max: 128 }; // SVG height in pixels/vw
+export const NOTE_SVG_HEIGHT = { min: 112, preferred: '16vw', max: 128 }; // SVG height in pixels/vw
 const STAFF_LINE_EXTENSION = 1000; // How far staff lines extend beyond the viewBox (in viewBox units)
+export const STAFF_VIEWBOX_HEIGHT = 100; // Fixed viewBox height shared by everything drawn on the staff
+export const STAFF_LINE_SPACING = 8; // viewBox units per staff position
+
+const ACCIDENTAL_GLYPHS: Record<number, string> = {
+  [-2]: "\u{1D12B}", // 𝄫
+  [-1]: "\u266D", // ♭
+  0: "\u266E", // ♮
+  1: "\u266F", // ♯
+  2: "\u{1D12A}", // 𝄪
+};
 
 interface NoteCircleProps {
   note: string;
@@ -15,6 +26,7 @@ interface NoteCircleProps {
   isPast: boolean;
   noteProgress: number;
   showStaffLines?: boolean;
+  keySignature?: string[]; // Letters sharpened by the key, e.g. ["F"] for G major
 }
 
 // Map note names to staff positions
@@ -22,34 +34,23 @@ interface NoteCircleProps {
 // Each position is one staff position (line or space)
 // Lines: E4=-4, G4=-2, B4=0, D5=2, F5=4
 // Spaces: F4=-3, A4=-1, C5=1, E5=3
-const getNotePosition = (noteStr: string): number => {
-  // Staff position system: B4 (middle line) = 0
-  // Each position is one staff position (line or space)
-  // Lines: E4=-4, G4=-2, B4=0, D5=2, F5=4
-  // Spaces: F4=-3, A4=-1, C5=1, E5=3
-  const noteMap: Record<string, number> = {
-    // Below staff
-    F3: -10,
-    G3: -9,
-    A3: -8,
-    B3: -7,
-    C4: -6, // One ledger line below
-    D4: -5,
-    E4: -4, // Bottom line
-    F4: -3, // 1st space
-    G4: -2, // 2nd line
-    A4: -1, // 2nd space
-    B4: 0,  // 3rd line (middle) - REFERENCE
-    C5: 1,  // 3rd space
-    D5: 2,  // 4th line
-    E5: 3,  // 4th space
-    F5: 4,  // Top line
-    G5: 5,  // Just above top line
-    A5: 6,  // One ledger line above
-    B5: 7,
-    C6: 8,
-  };
-  return noteMap[noteStr] ?? 0; // Default to middle line
+const B4_STEP = getStaffStep(parsePitch("B4"));
+
+export const getNotePosition = (pitch: Pitch): number => {
+  // Count diatonic steps from B4, so every instrument's range maps onto the
+  // staff (C3 = -13 ... E6 = 9). Accidentals share the position of their letter.
+  return getStaffStep(pitch) - B4_STEP;
+};
+
+/**
+ * Accidental to draw before the note, or null when the key signature
+ * already implies it (e.g. F#4 in G major, or F4 in C major)
+ */
+const getAccidental = (pitch: Pitch, keySignature: string[]): string | null => {
+  const keyAccidental = keySignature.includes(pitch.letter) ? 1 : 0;
+  return pitch.accidental === keyAccidental
+    ? null
+    : ACCIDENTAL_GLYPHS[pitch.accidental];
 };
 
 // Check if a note needs ledger lines
@@ -88,10 +89,28 @@ export const NoteCircle: React.FC<NoteCircleProps> = ({
   isPast,
   noteProgress,
   showStaffLines = true,
+  keySignature = [],
 }) => {
+  const pitch = tryParsePitch(note);
+
+  // Bad song data: flag it instead of drawing it on some arbitrary line
+  if (!pitch) {
+    return (
+      <div
+        className="relative flex flex-col items-center justify-center gap-2 text-red-400"
+        style={{ height: `clamp(${NOTE_CONTAINER_HEIGHT.min}px, ${NOTE_CONTAINER_HEIGHT.preferred}, ${NOTE_CONTAINER_HEIGHT.max}px)` }}
+        title={`"${note}" is not a valid note`}
+      >
+        <AlertTriangle size={28} />
+        <span className="text-lg sm:text-2xl font-bold">{note || "?"}</span>
+      </div>
+    );
+  }
+
   const isHollow = duration === "1" || duration === "1/2";
-  const position = getNotePosition(note);
+  const position = getNotePosition(pitch);
   const ledgerLines = getLedgerLines(position);
+  const accidental = getAccidental(pitch, keySignature);
 
   // Get colors based on state
   const getColor = () => {
@@ -115,10 +134,10 @@ export const NoteCircle: React.FC<NoteCircleProps> = ({
   
   // Fixed viewBox dimensions for consistent scaling
   const viewBoxWidth = 80;
-  const viewBoxHeight = 100;
+  const viewBoxHeight = STAFF_VIEWBOX_HEIGHT;
   
   // Line spacing in viewBox units - calculated relative to viewBox height
-  const lineSpacing = 8; // viewBox units per staff position
+  const lineSpacing = STAFF_LINE_SPACING;
   
   // B4 (middle line) is at position 0, which should be at the center of the viewBox
   const staffCenterY = viewBoxHeight / 2;
@@ -217,6 +236,20 @@ export const NoteCircle: React.FC<NoteCircleProps> = ({
               />
             )}
 
+            {/* Accidental in front of the note head */}
+            {accidental && (
+              <text
+                x={40 - noteHeadRx - 4}
+                y={noteY}
+                textAnchor="end"
+                dominantBaseline="central"
+                fontSize="20"
+                fill={color}
+              >
+                {accidental}
+              </text>
+            )}
+
             {/* Note head */}
             {isHollow ? (
               <>
@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { RhythmGrade } from "../services/rhythmScoring";
+import {
+  noteNameToMidi,
+  parsePitch,
+  pitchToMidi,
+  tryParsePitch,
+} from "../services/pitch";
+import { SongTiming, getBeatAtTime } from "../services/timing";
+import { Song } from "../types";
+
+// Horizontal scale of the lane and where the hit line sits
+const PX_PER_BEAT = 72;
+const HIT_LINE_PERCENT = 20;
+const NOTE_GAP_PX = 4;
+
+const GRADE_NOTE_CLASSES: Record<RhythmGrade, string> = {
+  perfect: "bg-green-500/80 border-green-300",
+  good: "bg-emerald-600/70 border-emerald-300",
+  early: "bg-amber-500/70 border-amber-300",
+  late: "bg-orange-500/70 border-orange-300",
+  miss: "bg-red-700/60 border-red-400",
+};
+
+interface NoteHighwayProps {
+  song: Song;
+  timing: SongTiming;
+  strings: string[]; // One lane per string, lowest first
+  activeIndex: number;
+  noteProgress: number; // Hold progress of the active note, 0-1
+  showBass: boolean;
+  dimBass: boolean; // Bass shown but not checked
+  grades?: Record<number, RhythmGrade>;
+  // Song clock in ms for smooth scrolling at tempo. Without it the lane
+  // glides to the active note instead.
+  getSongTimeMs?: () => number | null;
+}
+
+/**
+ * Lane of the string that sounds the note, or the nearest one when no
+ * string does (shown dashed)
+ */
+const getLane = (
+  note: string,
+  stringMidis: number[]
+): { lane: number; isOnString: boolean } | null => {
+  const pitch = tryParsePitch(note);
+  if (!pitch || stringMidis.length === 0) return null;
+  const midi = pitchToMidi(pitch);
+  let lane = 0;
+  stringMidis.forEach((stringMidi, index) => {
+    if (Math.abs(stringMidi - midi) < Math.abs(stringMidis[lane] - midi)) {
+      lane = index;
+    }
+  });
+  return { lane, isOnString: stringMidis[lane] === midi };
+};
+
+/**
+ * Notes on a horizontal lane per string, spaced by duration and scrolling
+ * under a fixed hit line
+ */
+export const NoteHighway: React.FC<NoteHighwayProps> = ({
+  song,
+  timing,
+  strings,
+  activeIndex,
+  noteProgress,
+  showBass,
+  dimBass,
+  grades = {},
+  getSongTimeMs,
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const stringMidis = useMemo(
+    () => strings.map((note) => noteNameToMidi(note)),
+    [strings]
+  );
+  const laneHeight = 100 / Math.max(strings.length, 1);
+  // Highest string on top, like the staff
+  const laneTop = (lane: number) => (strings.length - 1 - lane) * laneHeight;
+
+  const barLines = useMemo(() => {
+    const lines: number[] = [];
+    const { beats } = timing.timeSignature;
+    for (let beat = timing.anacrusis; beat <= timing.totalBeats; beat += beats) {
+      lines.push(beat);
+    }
+    return lines;
+  }, [timing]);
+
+  // Follow the song clock every frame; React doesn't re-render for this
+  useEffect(() => {
+    if (!getSongTimeMs) return;
+    let frame = 0;
+    const tick = () => {
+      const ms = getSongTimeMs();
+      if (ms !== null && trackRef.current) {
+        const beat = getBeatAtTime(timing, ms);
+        trackRef.current.style.transform = `translateX(${-beat * PX_PER_BEAT}px)`;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [getSongTimeMs, timing]);
+
+  const activeBeat = timing.notes[activeIndex]?.beat ?? 0;
+
+  const renderNote = (index: number, note: string, isBass: boolean) => {
+    const timed = timing.notes[index];
+    const placement = getLane(note, stringMidis);
+    if (!timed || !placement) return null;
+
+    const isActive = index === activeIndex;
+    const isPast = index < activeIndex;
+    const grade = grades[index];
+    const colors = grade
+      ? GRADE_NOTE_CLASSES[grade]
+      : isActive
+      ? isBass
+        ? "bg-purple-500 border-purple-200"
+        : "bg-indigo-500 border-indigo-200"
+      : isBass
+      ? "bg-purple-800/70 border-purple-500"
+      : "bg-indigo-800/70 border-indigo-400";
+
+    return (
+      <div
+        key={`${isBass ? "bass" : "melody"}-${index}`}
+        className={`absolute rounded-md border overflow-hidden flex items-center px-1 transition-opacity ${colors} ${
+          placement.isOnString ? "" : "border-dashed"
+        } ${isPast && !grade ? "opacity-40" : ""} ${
+          isBass && dimBass ? "opacity-40" : ""
+        } ${isActive ? "shadow-lg shadow-indigo-500/40 z-10" : ""}`}
+        style={{
+          left: timed.beat * PX_PER_BEAT,
+          width: Math.max(timed.beats * PX_PER_BEAT - NOTE_GAP_PX, 8),
+          top: `${laneTop(placement.lane)}%`,
+          height: `${laneHeight}%`,
+        }}
+        title={placement.isOnString ? note : `${note} (no string)`}
+      >
+        {isActive && !isBass && noteProgress > 0 && (
+          <div
+            className="absolute inset-y-0 left-0 bg-green-400/50"
+            style={{ width: `${noteProgress * 100}%` }}
+          />
+        )}
+        <span className="relative text-[9px] sm:text-[10px] font-bold text-white/90 leading-none truncate">
+          {note}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative w-full h-full min-h-[200px] overflow-hidden">
+      {/* Lanes, one per string */}
+      {strings.map((note, lane) => {
+        const letter = parsePitch(note).letter;
+        return (
+          <div
+            key={note}
+            className={`absolute inset-x-0 border-t border-slate-700/40 ${
+              letter === "C"
+                ? "bg-red-500/10"
+                : letter === "F"
+                ? "bg-sky-500/10"
+                : ""
+            }`}
+            style={{ top: `${laneTop(lane)}%`, height: `${laneHeight}%` }}
+          >
+            <span className="absolute left-1 top-1/2 -translate-y-1/2 text-[8px] sm:text-[9px] font-mono text-slate-500 z-20">
+              {note}
+            </span>
+          </div>
+        );
+      })}
+
+      {/* Moving notes; beat 0 sits on the hit line */}
+      <div
+        className="absolute inset-y-0"
+        style={{ left: `${HIT_LINE_PERCENT}%` }}
+      >
+        <div
+          ref={trackRef}
+          className={`absolute inset-y-0 left-0 ${
+            getSongTimeMs ? "" : "transition-transform duration-300 ease-out"
+          }`}
+          style={
+            getSongTimeMs
+              ? undefined
+              : { transform: `translateX(${-activeBeat * PX_PER_BEAT}px)` }
+          }
+        >
+          {barLines.map((beat) => (
+            <div
+              key={beat}
+              className="absolute inset-y-0 w-px bg-slate-600/50"
+              style={{ left: beat * PX_PER_BEAT }}
+            />
+          ))}
+          {song.notes.map((noteObj, index) => (
+            <React.Fragment key={index}>
+              {renderNote(index, noteObj.note, false)}
+              {showBass &&
+                noteObj.bassNote &&
+                renderNote(index, noteObj.bassNote, true)}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {/* Hit line */}
+      <div
+        className="absolute inset-y-0 w-0.5 bg-yellow-400/80 shadow-[0_0_8px_rgba(250,204,21,0.6)] z-20"
+        style={{ left: `${HIT_LINE_PERCENT}%` }}
+      />
+    </div>
+  );
+};
@@ -1,13 +1,24 @@
 import React from 'react';
-import { Song } from '../types';
-import { Play } from 'lucide-react';
+import { LibrarySong } from '../types';
+import { AlertTriangle, Copy, Pencil, Play, Trash2 } from 'lucide-react';
 
 interface SongCardProps {
-  song: Song;
-  onSelect: (song: Song) => void;
+  song: LibrarySong;
+  outOfRange?: string[]; // Notes no string of the chosen instrument produces
+  onSelect: (song: LibrarySong) => void;
+  onEdit?: (song: LibrarySong) => void;
+  onDuplicate?: (song: LibrarySong) => void;
+  onDelete?: (song: LibrarySong) => void;
 }
 
-export const SongCard: React.FC<SongCardProps> = ({ song, onSelect }) => {
+export const SongCard: React.FC<SongCardProps> = ({
+  song,
+  outOfRange = [],
+  onSelect,
+  onEdit,
+  onDuplicate,
+  onDelete,
+}) => {
   return (
     <div 
       onClick={() => onSelect(song)}
@@ -25,11 +36,59 @@ export const SongCard: React.FC<SongCardProps> = ({ song, onSelect }) => {
             ${song.difficulty === 'Hard' ? 'text-red-400' : ''}
           `}>{song.difficulty}</span>
           <span>• {song.notes.length} notes</span>
+          {song.source === 'user' && <span className="text-indigo-300">• Yours</span>}
         </div>
+        {outOfRange.length > 0 && (
+          <div className="flex items-center gap-1 text-xs text-amber-400 mt-1" title="Your lyre has no strings for these notes - try another tuning or the levers">
+            <AlertTriangle size={12} className="flex-shrink-0" />
+            <span className="truncate">Out of range: {outOfRange.join(', ')}</span>
+          </div>
+        )}
       </div>
 
-      <div className="relative z-10 bg-indigo-600 p-2 rounded-full sm:opacity-0 sm:group-hover:opacity-100 transform sm:translate-x-4 sm:group-hover:translate-x-0 transition-all duration-300 flex-shrink-0">
-        <Play size={18} className="sm:w-5 sm:h-5" fill="currentColor" />
+      <div className="relative z-10 flex items-center gap-1 flex-shrink-0">
+        <div className="flex gap-1 sm:mr-2 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+          {onEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onEdit(song);
+              }}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              title="Edit"
+            >
+              <Pencil size={16} />
+            </button>
+          )}
+          {onDuplicate && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDuplicate(song);
+              }}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              title="Duplicate"
+            >
+              <Copy size={16} />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(song);
+              }}
+              className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-700 transition-colors"
+              title={song.source === 'builtin' ? 'Remove (restore built-ins to bring it back)' : 'Delete'}
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+
+        <div className="bg-indigo-600 p-2 rounded-full sm:opacity-0 sm:group-hover:opacity-100 transform sm:translate-x-4 sm:group-hover:translate-x-0 transition-all duration-300 flex-shrink-0">
+          <Play size={18} className="sm:w-5 sm:h-5" fill="currentColor" />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,687 @@
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Save,
+  Square,
+  Trash2,
+  Volume2,
+} from "lucide-react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  NoteRangeIssue,
+  getNoteRangeIssue,
+  getTunedStrings,
+  getTuning,
+} from "../services/instruments";
+import { LyreSynth } from "../services/lyreSynth";
+import { tryParsePitch } from "../services/pitch";
+import { loadActiveConfig } from "../services/profileStore";
+import {
+  BEAT_UNITS,
+  NOTE_DURATIONS,
+  getSongProblems,
+} from "../services/songValidation";
+import { SONG_DIFFICULTIES, SongDifficulty } from "../services/songGeneration";
+import { DEFAULT_BPM, DEFAULT_TIME_SIGNATURE } from "../services/timing";
+import {
+  InstrumentProfile,
+  InstrumentSetup,
+  LibrarySong,
+  Note,
+  NoteDuration,
+  Song,
+  TempoChange,
+} from "../types";
+import { KeySignature } from "./KeySignature";
+import { NoteCircle } from "./NoteCircle";
+
+interface SongEditorProps {
+  song: LibrarySong | null; // null to write a new song
+  instrument: InstrumentProfile;
+  instrumentSetup: InstrumentSetup;
+  onSave: (song: Song) => Promise<void>;
+  onBack: () => void;
+}
+
+const DURATION_LABELS: Record<NoteDuration, string> = {
+  "1": "Whole",
+  "1/2": "Half",
+  "1/4": "Quarter",
+  "1/8": "Eighth",
+};
+
+const RANGE_ISSUE_LABELS: Record<NoteRangeIssue, string> = {
+  invalid: "Not a note",
+  accidental: "Not in tuning",
+  outOfRange: "Out of range",
+};
+
+const RANGE_ISSUE_HINTS: Record<NoteRangeIssue, string> = {
+  invalid: "is not a note name",
+  accidental: "needs another tuning or a lever",
+  outOfRange: "is beyond the lyre's strings",
+};
+
+// Seconds a single auditioned note rings
+const AUDITION_SECONDS = 0.8;
+
+/**
+ * The song without the library's id and timestamps
+ */
+const getSongFields = (song: Song): Song => ({
+  title: song.title,
+  ...(song.artist ? { artist: song.artist } : {}),
+  difficulty: song.difficulty,
+  ...(song.bpm !== undefined ? { bpm: song.bpm } : {}),
+  ...(song.timeSignature ? { timeSignature: song.timeSignature } : {}),
+  ...(song.anacrusis !== undefined ? { anacrusis: song.anacrusis } : {}),
+  ...(song.tempoChanges?.length ? { tempoChanges: song.tempoChanges } : {}),
+  notes: song.notes.map((note) => ({ ...note })),
+});
+
+const createEmptySong = (strings: string[]): Song => ({
+  title: "",
+  difficulty: "Easy",
+  bpm: DEFAULT_BPM,
+  timeSignature: DEFAULT_TIME_SIGNATURE,
+  notes: [{ note: strings[Math.floor(strings.length / 2)] ?? "C4", duration: "1/4" }],
+});
+
+/**
+ * Keep tempo changes on the same steps when a step is inserted (+1) or
+ * removed (-1) at `index`
+ */
+const shiftTempoChanges = (
+  changes: TempoChange[] | undefined,
+  index: number,
+  delta: 1 | -1,
+  noteCount: number
+): TempoChange[] | undefined => {
+  if (!changes) return changes;
+  const shifted = changes
+    .map((change) =>
+      change.index > index || (delta > 0 && change.index === index)
+        ? { ...change, index: change.index + delta }
+        : change
+    )
+    .filter((change) => change.index < noteCount);
+  return shifted.length > 0 ? shifted : undefined;
+};
+
+/**
+ * Write or fix a song on the staff: pick each pitch from the lyre's
+ * strings, set durations, bass notes and lyrics, and listen as you go.
+ * Notes the lyre can't play are flagged but may be saved; data errors
+ * (getSongProblems) block saving.
+ */
+export const SongEditor: React.FC<SongEditorProps> = ({
+  song,
+  instrument,
+  instrumentSetup,
+  onSave,
+  onBack,
+}) => {
+  const tunedStrings = useMemo(
+    () => getTunedStrings(instrument, instrumentSetup),
+    [instrument, instrumentSetup]
+  );
+  const keySignature = getTuning(instrumentSetup.tuningId).sharps;
+
+  const [draft, setDraft] = useState<Song>(() =>
+    song ? getSongFields(song) : createEmptySong(tunedStrings)
+  );
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [playbackIndex, setPlaybackIndex] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Last failure to save or play, shown under the staff
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const synthRef = useRef<LyreSynth | null>(null);
+
+  const selected: Note | undefined = draft.notes[selectedIndex];
+  const timeSignature = draft.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+
+  const problems = useMemo(() => getSongProblems(draft), [draft]);
+  const noteIssues = useMemo(
+    () =>
+      draft.notes.map((note) => ({
+        melody: getNoteRangeIssue(note.note, instrument, tunedStrings),
+        bass: note.bassNote
+          ? getNoteRangeIssue(note.bassNote, instrument, tunedStrings)
+          : null,
+      })),
+    [draft.notes, instrument, tunedStrings]
+  );
+  const flaggedCount = noteIssues.filter(
+    (issues) => issues.melody || issues.bass
+  ).length;
+  const isDirty = useMemo(
+    () =>
+      !song ||
+      JSON.stringify(getSongFields(song)) !== JSON.stringify(getSongFields(draft)),
+    [song, draft]
+  );
+
+  // The synth gets its own context; the editor doesn't use the microphone
+  const getSynth = (): LyreSynth => {
+    if (!synthRef.current) {
+      synthRef.current = new LyreSynth(
+        new (window.AudioContext || (window as any).webkitAudioContext)()
+      );
+    }
+    return synthRef.current;
+  };
+
+  useEffect(
+    () => () => {
+      synthRef.current?.stop();
+      synthRef.current?.context.close();
+    },
+    []
+  );
+
+  // Keep the selected note in view
+  useEffect(() => {
+    document
+      .getElementById(`editor-note-${playbackIndex ?? selectedIndex}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest", inline: "center" });
+  }, [selectedIndex, playbackIndex]);
+
+  const showError = (action: string, e: unknown) => {
+    console.error(`Couldn't ${action}:`, e);
+    setErrorMessage(`Couldn't ${action}: ${e instanceof Error ? e.message : String(e)}`);
+  };
+
+  const audition = (note: string | undefined, bassNote?: string) => {
+    const { referencePitch } = loadActiveConfig();
+    try {
+      const synth = getSynth();
+      if (synth.context.state === "suspended") {
+        synth.context.resume().catch((e) => showError("play", e));
+      }
+      if (note && tryParsePitch(note)) {
+        synth.playNote(note, undefined, AUDITION_SECONDS, referencePitch);
+      }
+      if (bassNote && tryParsePitch(bassNote)) {
+        synth.playNote(bassNote, undefined, AUDITION_SECONDS, referencePitch, true);
+      }
+    } catch (e) {
+      showError("play", e);
+    }
+  };
+
+  const stopPlayback = () => {
+    synthRef.current?.stop();
+    setPlaybackIndex(null);
+  };
+
+  const playFromSelected = async () => {
+    const { referencePitch } = loadActiveConfig();
+    setPlaybackIndex(selectedIndex);
+    setErrorMessage(null);
+    try {
+      await getSynth().play(draft, {
+        start: selectedIndex,
+        referencePitch,
+        onNote: setPlaybackIndex,
+        onEnd: () => setPlaybackIndex(null),
+      });
+    } catch (e) {
+      setPlaybackIndex(null);
+      showError("play", e);
+    }
+  };
+
+  const updateSong = (changes: Partial<Song>) => {
+    stopPlayback();
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  /**
+   * Change fields of one note; empty values remove the field
+   */
+  const updateNote = (index: number, changes: Partial<Note>) => {
+    stopPlayback();
+    setDraft((current) => {
+      const notes = [...current.notes];
+      const note: Note = { ...notes[index], ...changes };
+      if (!note.bassNote) delete note.bassNote;
+      if (!note.lyric) delete note.lyric;
+      notes[index] = note;
+      return { ...current, notes };
+    });
+  };
+
+  /**
+   * Add a copy of a note's pitch and duration after it
+   */
+  const insertNote = (after: number = selectedIndex) => {
+    stopPlayback();
+    const index = after + 1;
+    setDraft((current) => {
+      const source = current.notes[after];
+      const notes = [...current.notes];
+      notes.splice(index, 0, {
+        note: source?.note ?? tunedStrings[0],
+        duration: source?.duration ?? "1/4",
+      });
+      return {
+        ...current,
+        notes,
+        tempoChanges: shiftTempoChanges(current.tempoChanges, index, 1, notes.length),
+      };
+    });
+    setSelectedIndex(index);
+  };
+
+  const removeNote = () => {
+    if (draft.notes.length <= 1) return;
+    stopPlayback();
+    const index = selectedIndex;
+    setDraft((current) => {
+      const notes = current.notes.filter((_, i) => i !== index);
+      return {
+        ...current,
+        notes,
+        tempoChanges: shiftTempoChanges(current.tempoChanges, index, -1, notes.length),
+      };
+    });
+    setSelectedIndex(Math.min(index, draft.notes.length - 2));
+  };
+
+  const moveNote = (delta: -1 | 1) => {
+    const target = selectedIndex + delta;
+    if (target < 0 || target >= draft.notes.length) return;
+    stopPlayback();
+    setDraft((current) => {
+      const notes = [...current.notes];
+      [notes[selectedIndex], notes[target]] = [notes[target], notes[selectedIndex]];
+      // A tempo change stays with its note
+      const tempoChanges = current.tempoChanges?.map((change) =>
+        change.index === selectedIndex
+          ? { ...change, index: target }
+          : change.index === target
+            ? { ...change, index: selectedIndex }
+            : change
+      );
+      return { ...current, notes, tempoChanges };
+    });
+    setSelectedIndex(target);
+  };
+
+  const handleSave = async () => {
+    if (problems.length > 0) return;
+    stopPlayback();
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await onSave({ ...draft, title: draft.title.trim() });
+    } catch (e) {
+      showError("save", e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (isDirty && !window.confirm("Discard your changes to this song?")) return;
+    stopPlayback();
+    onBack();
+  };
+
+  const selectedIssues = noteIssues[selectedIndex];
+  const bassOptions =
+    selected?.bassNote && !tunedStrings.includes(selected.bassNote)
+      ? [selected.bassNote, ...tunedStrings]
+      : tunedStrings;
+
+  return (
+    <div className="flex flex-col h-full w-full mx-auto animate-in fade-in zoom-in duration-300 overflow-hidden relative">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 sm:p-4 shrink-0 bg-slate-900 z-20 gap-2">
+        <button
+          onClick={handleBack}
+          className="p-1 sm:p-2 hover:bg-slate-800 rounded-lg transition-colors text-slate-400 hover:text-white flex items-center gap-1 sm:gap-2 text-sm sm:text-base flex-shrink-0"
+        >
+          <ArrowLeft size={18} className="sm:w-5 sm:h-5" />
+          <span className="hidden sm:inline">Back</span>
+        </button>
+        <div className="text-center flex-1 min-w-0">
+          <h2 className="text-base sm:text-xl font-bold truncate">
+            {song ? `Edit ${song.title}` : "New Song"}
+          </h2>
+          <p className="text-slate-400 text-xs">
+            {draft.notes.length} notes • {instrument.name}
+            {flaggedCount > 0 && (
+              <span className="text-amber-400"> • {flaggedCount} flagged</span>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={problems.length > 0 || isSaving || !isDirty}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:hover:bg-indigo-600 text-white text-sm font-medium transition-colors flex-shrink-0"
+          title={problems.length > 0 ? "Fix the problems below first" : "Save to your library"}
+        >
+          <Save size={16} />
+          <span className="hidden sm:inline">{isDirty ? "Save" : "Saved"}</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 sm:px-6 pb-8 space-y-4">
+        {/* Song details */}
+        <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 max-w-4xl mx-auto">
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => updateSong({ title: e.target.value })}
+            placeholder="Title"
+            className="col-span-2 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+          />
+          <input
+            type="text"
+            value={draft.artist ?? ""}
+            onChange={(e) => updateSong({ artist: e.target.value || undefined })}
+            placeholder="Artist (optional)"
+            className="col-span-2 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+          />
+          <select
+            value={draft.difficulty}
+            onChange={(e) => updateSong({ difficulty: e.target.value as SongDifficulty })}
+            className="px-2 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-300"
+          >
+            {SONG_DIFFICULTIES.map((difficulty) => (
+              <option key={difficulty} value={difficulty}>
+                {difficulty}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 px-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-400">
+            <input
+              type="number"
+              min={20}
+              max={300}
+              value={draft.bpm ?? DEFAULT_BPM}
+              onChange={(e) => updateSong({ bpm: Number(e.target.value) })}
+              className="w-14 bg-transparent text-slate-100 focus:outline-none"
+            />
+            BPM
+          </label>
+          <label className="col-span-2 sm:col-span-6 flex items-center gap-2 text-sm text-slate-400">
+            Time
+            <input
+              type="number"
+              min={1}
+              max={16}
+              value={timeSignature.beats}
+              onChange={(e) =>
+                updateSong({
+                  timeSignature: { ...timeSignature, beats: Number(e.target.value) },
+                })
+              }
+              className="w-12 px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-100"
+            />
+            /
+            <select
+              value={timeSignature.beatUnit}
+              onChange={(e) =>
+                updateSong({
+                  timeSignature: { ...timeSignature, beatUnit: Number(e.target.value) },
+                })
+              }
+              className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-300"
+            >
+              {BEAT_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Staff: tap a note to edit it */}
+        <div className="relative w-full overflow-x-auto touch-scroll bg-slate-800/30 rounded-xl">
+          <div className="flex items-center px-8 pt-10 pb-3 gap-4 sm:gap-6 w-max">
+            {keySignature.length > 0 && (
+              <div className="shrink-0">
+                <KeySignature sharps={keySignature} />
+              </div>
+            )}
+            {draft.notes.map((noteObj, idx) => {
+              const issues = noteIssues[idx];
+              const issue = issues.melody ?? issues.bass;
+              const isSelected = idx === selectedIndex;
+              return (
+                <button
+                  key={idx}
+                  id={`editor-note-${idx}`}
+                  onClick={() => {
+                    setSelectedIndex(idx);
+                    audition(noteObj.note, noteObj.bassNote);
+                  }}
+                  className={`relative shrink-0 flex flex-col items-center rounded-lg px-1 pb-1 transition-colors ${
+                    isSelected ? "bg-indigo-500/10 ring-1 ring-indigo-500/50" : "hover:bg-slate-700/30"
+                  }`}
+                >
+                  <NoteCircle
+                    note={noteObj.note}
+                    duration={noteObj.duration}
+                    isActive={isSelected || idx === playbackIndex}
+                    isPast={false}
+                    noteProgress={0}
+                    keySignature={keySignature}
+                  />
+                  <div className="text-[10px] sm:text-xs text-purple-300 h-4">
+                    {noteObj.bassNote}
+                  </div>
+                  <div className="font-serif text-xs sm:text-sm italic text-slate-500 h-5 max-w-[6rem] truncate">
+                    {noteObj.lyric || "-"}
+                  </div>
+                  <div
+                    className={`text-[9px] sm:text-[10px] font-bold uppercase h-4 ${
+                      issue === "invalid" ? "text-red-400" : "text-amber-400"
+                    }`}
+                  >
+                    {issue && RANGE_ISSUE_LABELS[issue]}
+                  </div>
+                </button>
+              );
+            })}
+            <button
+              onClick={() => insertNote(draft.notes.length - 1)}
+              className="shrink-0 p-3 rounded-full border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-indigo-500 transition-colors"
+              title="Add a note at the end"
+            >
+              <Plus size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Selected note */}
+        {selected && (
+          <div className="max-w-4xl mx-auto bg-slate-800/60 border border-slate-700 rounded-xl p-3 sm:p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm font-semibold text-slate-300">
+                Step {selectedIndex + 1}
+              </span>
+              <div className="flex flex-wrap gap-1">
+                <button
+                  onClick={() => moveNote(-1)}
+                  disabled={selectedIndex === 0}
+                  className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+                  title="Move left"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+                <button
+                  onClick={() => moveNote(1)}
+                  disabled={selectedIndex === draft.notes.length - 1}
+                  className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+                  title="Move right"
+                >
+                  <ChevronRight size={16} />
+                </button>
+                <button
+                  onClick={() => insertNote()}
+                  className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700"
+                  title="Insert a note after this one"
+                >
+                  <Plus size={16} />
+                </button>
+                <button
+                  onClick={removeNote}
+                  disabled={draft.notes.length <= 1}
+                  className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:text-red-400 hover:bg-slate-700 disabled:opacity-40"
+                  title="Remove this note"
+                >
+                  <Trash2 size={16} />
+                </button>
+                {playbackIndex === null ? (
+                  <button
+                    onClick={playFromSelected}
+                    disabled={problems.length > 0}
+                    className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40 text-sm"
+                    title="Listen from this note"
+                  >
+                    <Volume2 size={16} />
+                    Play from here
+                  </button>
+                ) : (
+                  <button
+                    onClick={stopPlayback}
+                    className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 text-sm"
+                  >
+                    <Square size={16} />
+                    Stop
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Pitch, one button per string */}
+            <div>
+              <span className="text-xs text-slate-500">Note</span>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {tunedStrings.map((note) => (
+                  <button
+                    key={note}
+                    onClick={() => {
+                      updateNote(selectedIndex, { note });
+                      audition(note);
+                    }}
+                    className={`min-w-[2.5rem] px-1.5 py-1 rounded-md text-[10px] sm:text-xs font-mono border transition-colors ${
+                      note === selected.note
+                        ? "bg-indigo-600 border-indigo-400 text-white"
+                        : "bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500"
+                    }`}
+                  >
+                    {note}
+                  </button>
+                ))}
+                <input
+                  type="text"
+                  value={selected.note}
+                  onChange={(e) => updateNote(selectedIndex, { note: e.target.value.trim() })}
+                  className="w-16 px-1.5 py-1 rounded-md bg-slate-900 border border-slate-700 text-xs font-mono text-slate-100 focus:outline-none focus:border-indigo-500"
+                  title="Any note name, e.g. F#4 or Bb3"
+                />
+              </div>
+              {selectedIssues?.melody && (
+                <p className="flex items-center gap-1 text-xs text-amber-400 mt-1">
+                  <AlertTriangle size={12} />
+                  {selected.note || "This note"} {RANGE_ISSUE_HINTS[selectedIssues.melody]}
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              {/* Duration */}
+              <div>
+                <span className="text-xs text-slate-500">Duration</span>
+                <div className="flex gap-1 mt-1">
+                  {NOTE_DURATIONS.map((duration) => (
+                    <button
+                      key={duration}
+                      onClick={() => updateNote(selectedIndex, { duration })}
+                      className={`px-2 py-1 rounded-md text-xs transition-colors ${
+                        (selected.duration ?? "1/4") === duration
+                          ? "bg-indigo-600 text-white"
+                          : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                      }`}
+                    >
+                      {DURATION_LABELS[duration]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Bass */}
+              <div>
+                <span className="text-xs text-slate-500">Bass note</span>
+                <div className="mt-1">
+                  <select
+                    value={selected.bassNote ?? ""}
+                    onChange={(e) => {
+                      updateNote(selectedIndex, { bassNote: e.target.value || undefined });
+                      if (e.target.value) audition(undefined, e.target.value);
+                    }}
+                    className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-xs font-mono text-slate-300"
+                  >
+                    <option value="">None</option>
+                    {bassOptions.map((note) => (
+                      <option key={note} value={note}>
+                        {note}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {selectedIssues?.bass && (
+                  <p className="flex items-center gap-1 text-xs text-amber-400 mt-1">
+                    <AlertTriangle size={12} />
+                    {selected.bassNote} {RANGE_ISSUE_HINTS[selectedIssues.bass]}
+                  </p>
+                )}
+              </div>
+
+              {/* Lyric */}
+              <div className="flex-1 min-w-[8rem]">
+                <span className="text-xs text-slate-500">Lyric</span>
+                <input
+                  type="text"
+                  value={selected.lyric ?? ""}
+                  onChange={(e) => updateNote(selectedIndex, { lyric: e.target.value })}
+                  className="mt-1 w-full px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-xs text-slate-100 focus:outline-none focus:border-indigo-500"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Problems that block saving */}
+        {problems.length > 0 && (
+          <div className="max-w-4xl mx-auto bg-red-900/20 border border-red-500/40 rounded-xl p-3 text-sm text-red-300">
+            <div className="flex items-center gap-2 font-semibold mb-1">
+              <AlertTriangle size={16} />
+              Fix before saving
+            </div>
+            <ul className="list-disc pl-5 space-y-0.5 max-h-32 overflow-y-auto">
+              {problems.map((problem, index) => (
+                <li key={index}>{problem}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {errorMessage && (
+          <div className="max-w-4xl mx-auto flex items-start gap-2 bg-red-900/20 border border-red-500/40 rounded-xl p-3 text-sm text-red-300">
+            <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+            <span>{errorMessage}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,522 @@
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Mic,
+  RotateCcw,
+} from "lucide-react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { buildNoteFrequencies } from "../constants";
+import { applyAudioConfig } from "../services/audioConfig";
+import { loadInputDevice } from "../services/audioDevices";
+import { AudioEngine, LevelEvent } from "../services/audioEngine";
+import { getTunedStrings } from "../services/instruments";
+import { loadActiveConfig } from "../services/profileStore";
+import { InstrumentProfile, InstrumentSetup } from "../types";
+
+interface TunerScreenProps {
+  instrument: InstrumentProfile;
+  instrumentSetup: InstrumentSetup;
+  strings?: string[]; // Only tune these strings (levers down), e.g. one that drifted
+  onBack: () => void;
+}
+
+interface StringTuning {
+  cents: number | null; // Last measured deviation, null if never heard
+  tuned: boolean;
+}
+
+const TUNED_CENTS = 5; // Counts as in tune within this many cents
+const TUNED_HOLD_MS = 1000; // ...held steadily for this long
+const MIN_CLARITY = 0.6; // Ignore frames without a clear pitch
+const NEEDLE_RANGE_CENTS = 50; // Needle end stops
+const NEEDLE_SMOOTHING = 0.3; // 0 = frozen, 1 = raw
+const FAR_OFF_CENTS = 100; // Beyond this the wrong string is likely
+const ADVANCE_DELAY_MS = 700; // Pause on a tuned string before moving on
+
+const formatCents = (cents: number): string =>
+  `${cents > 0 ? "+" : cents < 0 ? "−" : ""}${Math.abs(Math.round(cents))} ¢`;
+
+/**
+ * Semicircular gauge, -50 cents (left) to +50 cents (right)
+ */
+const CentsNeedle: React.FC<{ cents: number | null }> = ({ cents }) => {
+  const clamped =
+    cents === null
+      ? 0
+      : Math.max(-NEEDLE_RANGE_CENTS, Math.min(NEEDLE_RANGE_CENTS, cents));
+  const angle = (clamped / NEEDLE_RANGE_CENTS) * 60;
+  const inTune = cents !== null && Math.abs(cents) <= TUNED_CENTS;
+  const needleColor =
+    cents === null ? "#475569" : inTune ? "#22c55e" : "#f59e0b";
+  const zoneAngle = (TUNED_CENTS / NEEDLE_RANGE_CENTS) * 60;
+
+  // Polar to SVG coordinates around the pivot, 0 degrees pointing up
+  const point = (degrees: number, radius: number): [number, number] => {
+    const radians = ((degrees - 90) * Math.PI) / 180;
+    return [100 + radius * Math.cos(radians), 100 + radius * Math.sin(radians)];
+  };
+  const [needleX, needleY] = point(angle, 85);
+
+  return (
+    <svg viewBox="0 0 200 115" className="w-full max-w-sm">
+      {/* In-tune zone */}
+      <path
+        d={`M ${point(-zoneAngle, 90).join(" ")} A 90 90 0 0 1 ${point(zoneAngle, 90).join(" ")}`}
+        stroke="rgba(34, 197, 94, 0.5)"
+        strokeWidth="10"
+        fill="none"
+      />
+      {/* Scale every 10 cents */}
+      {[-50, -40, -30, -20, -10, 0, 10, 20, 30, 40, 50].map((mark) => {
+        const markAngle = (mark / NEEDLE_RANGE_CENTS) * 60;
+        const [x1, y1] = point(markAngle, 80);
+        const [x2, y2] = point(markAngle, mark === 0 ? 66 : 72);
+        return (
+          <line
+            key={mark}
+            x1={x1}
+            y1={y1}
+            x2={x2}
+            y2={y2}
+            stroke="#64748b"
+            strokeWidth={mark === 0 ? 2 : 1}
+          />
+        );
+      })}
+      <text x="22" y="112" fill="#64748b" fontSize="10" textAnchor="middle">
+        flat
+      </text>
+      <text x="178" y="112" fill="#64748b" fontSize="10" textAnchor="middle">
+        sharp
+      </text>
+      {/* Needle */}
+      <line
+        x1="100"
+        y1="100"
+        x2={needleX}
+        y2={needleY}
+        stroke={needleColor}
+        strokeWidth="3"
+        strokeLinecap="round"
+        style={{ transition: "all 80ms linear" }}
+      />
+      <circle cx="100" cy="100" r="5" fill={needleColor} />
+    </svg>
+  );
+};
+
+/**
+ * Guided tuner: steps through every string, shows the cents deviation of the
+ * raw detected frequency and marks a string tuned once it holds steady.
+ */
+export const TunerScreen: React.FC<TunerScreenProps> = ({
+  instrument,
+  instrumentSetup,
+  strings: onlyStrings,
+  onBack,
+}) => {
+  // Strings are tuned with every lever down
+  const allStrings = useMemo(
+    () =>
+      getTunedStrings(instrument, {
+        tuningId: instrumentSetup.tuningId,
+        levers: [],
+      }),
+    [instrument, instrumentSetup.tuningId]
+  );
+  const onlyStringsKey = onlyStrings?.join();
+  const strings = useMemo(() => {
+    const selected = onlyStrings
+      ? allStrings.filter((note) => onlyStrings.includes(note))
+      : [];
+    return selected.length > 0 ? selected : allStrings;
+  }, [allStrings, onlyStringsKey]);
+  const [config] = useState(loadActiveConfig);
+  const targetFrequencies = useMemo(
+    () => buildNoteFrequencies(config.referencePitch, strings),
+    [config.referencePitch, strings]
+  );
+
+  const [stringIndex, setStringIndex] = useState(0);
+  const [status, setStatus] = useState<Record<string, StringTuning>>({});
+  const [needleCents, setNeedleCents] = useState<number | null>(null);
+  const [frequency, setFrequency] = useState(0);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const [isListening, setIsListening] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const audioEngineRef = useRef<AudioEngine | null>(null);
+  const stringIndexRef = useRef(0);
+  const statusRef = useRef(status);
+  const smoothedCentsRef = useRef<number | null>(null);
+  const holdStartRef = useRef<number | null>(null);
+  const advanceTimeoutRef = useRef<number | null>(null);
+
+  const target = strings[stringIndex];
+
+  const selectString = useCallback((index: number) => {
+    if (advanceTimeoutRef.current) {
+      clearTimeout(advanceTimeoutRef.current);
+      advanceTimeoutRef.current = null;
+    }
+    stringIndexRef.current = index;
+    setStringIndex(index);
+    smoothedCentsRef.current = null;
+    holdStartRef.current = null;
+    setNeedleCents(null);
+    setHoldProgress(0);
+  }, []);
+
+  const updateStatus = useCallback((note: string, tuning: StringTuning) => {
+    statusRef.current = { ...statusRef.current, [note]: tuning };
+    setStatus(statusRef.current);
+  }, []);
+
+  const stopListening = useCallback(() => {
+    audioEngineRef.current?.stop();
+    setIsListening(false);
+    setNeedleCents(null);
+    setHoldProgress(0);
+  }, []);
+
+  /**
+   * Move to the next string that is not tuned yet, or finish
+   */
+  const advance = useCallback(() => {
+    advanceTimeoutRef.current = null;
+    const current = stringIndexRef.current;
+    for (let step = 1; step <= strings.length; step++) {
+      const index = (current + step) % strings.length;
+      if (!statusRef.current[strings[index]]?.tuned) {
+        selectString(index);
+        return;
+      }
+    }
+    stopListening();
+    setIsFinished(true);
+  }, [strings, selectString, stopListening]);
+
+  /**
+   * Runs once per analysis frame with the raw (unrounded) frequency
+   */
+  const checkTuning = useCallback((event: LevelEvent) => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+
+    const note = strings[stringIndexRef.current];
+    const targetFrequency = targetFrequencies[note];
+    const isWaiting = advanceTimeoutRef.current !== null;
+
+    if (
+      !isWaiting &&
+      event.frequency > 0 &&
+      event.clarity >= MIN_CLARITY &&
+      event.rms > engine.rmsThreshold
+    ) {
+      const cents = 1200 * Math.log2(event.frequency / targetFrequency);
+      const previous = smoothedCentsRef.current;
+      const smoothed =
+        previous === null ? cents : previous + (cents - previous) * NEEDLE_SMOOTHING;
+      smoothedCentsRef.current = smoothed;
+      setNeedleCents(smoothed);
+      setFrequency(event.frequency);
+
+      const wasTuned = statusRef.current[note]?.tuned ?? false;
+      if (Math.abs(smoothed) <= TUNED_CENTS) {
+        const now = Date.now();
+        if (holdStartRef.current === null) holdStartRef.current = now;
+        const progress = Math.min((now - holdStartRef.current) / TUNED_HOLD_MS, 1);
+        setHoldProgress(progress);
+        if (progress >= 1) {
+          updateStatus(note, { cents: smoothed, tuned: true });
+          holdStartRef.current = null;
+          advanceTimeoutRef.current = window.setTimeout(advance, ADVANCE_DELAY_MS);
+        } else if (!wasTuned) {
+          updateStatus(note, { cents: smoothed, tuned: false });
+        }
+      } else {
+        holdStartRef.current = null;
+        setHoldProgress(0);
+        // Retuning a string that was fine marks it as off again
+        updateStatus(note, { cents: smoothed, tuned: false });
+      }
+    } else if (!isWaiting) {
+      // String decayed: keep the last reading for the summary, drop the needle
+      smoothedCentsRef.current = null;
+      holdStartRef.current = null;
+      setNeedleCents(null);
+      setHoldProgress(0);
+    }
+  }, [strings, targetFrequencies, updateStatus, advance]);
+
+  // Initialize Audio Engine
+  useEffect(() => {
+    audioEngineRef.current = new AudioEngine();
+    applyAudioConfig(audioEngineRef.current, config);
+    audioEngineRef.current.onDisconnect = () => {
+      stopListening();
+      setErrorMsg("Microphone disconnected. Start the tuner to reconnect.");
+    };
+
+    return () => {
+      if (advanceTimeoutRef.current) clearTimeout(advanceTimeoutRef.current);
+      audioEngineRef.current?.stop();
+    };
+  }, []);
+
+  // Every analysis frame moves the needle
+  useEffect(() => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+    return engine.on("level", checkTuning);
+  }, [checkTuning]);
+
+  // Keep the full analysis range even when tuning a single string
+  useEffect(() => {
+    audioEngineRef.current?.setStrings(allStrings);
+  }, [allStrings]);
+
+  const startListening = async () => {
+    setErrorMsg(null);
+    if (!audioEngineRef.current) return;
+    try {
+      await audioEngineRef.current.start(loadInputDevice() ?? undefined);
+      setIsListening(true);
+    } catch (err) {
+      console.error("Microphone access denied or error:", err);
+      setErrorMsg("Could not access microphone. Please check permissions.");
+    }
+  };
+
+  const handleFinish = () => {
+    stopListening();
+    setIsFinished(true);
+  };
+
+  const handleRetuneOff = () => {
+    const firstOff = strings.findIndex((note) => !status[note]?.tuned);
+    setIsFinished(false);
+    selectString(Math.max(0, firstOff));
+  };
+
+  const offStrings = strings.filter((note) => !status[note]?.tuned);
+  const isFarOff = needleCents !== null && Math.abs(needleCents) > FAR_OFF_CENTS;
+
+  return (
+    <div className="flex flex-col h-full w-full mx-auto animate-in fade-in zoom-in duration-300 overflow-hidden relative">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 sm:p-4 shrink-0 bg-slate-900 z-20 gap-2">
+        <button
+          onClick={onBack}
+          className="p-1 sm:p-2 hover:bg-slate-800 rounded-lg transition-colors text-slate-400 hover:text-white flex items-center gap-1 sm:gap-2 text-sm sm:text-base flex-shrink-0"
+        >
+          <ArrowLeft size={18} className="sm:w-5 sm:h-5" />
+          <span className="hidden sm:inline">Back</span>
+        </button>
+        <div className="text-center flex-1 min-w-0">
+          <h2 className="text-base sm:text-xl font-bold truncate">Tuner</h2>
+          <p className="text-slate-400 text-xs">
+            {instrument.name} • A4 = {config.referencePitch} Hz
+          </p>
+        </div>
+        <div className="w-12 sm:w-20 flex-shrink-0" />
+      </div>
+
+      <div className="flex-1 flex flex-col items-center overflow-y-auto p-4 sm:p-8 gap-6">
+        {isFinished ? (
+          /* Summary */
+          <div className="text-center animate-in fade-in zoom-in duration-500 p-8 bg-slate-800/50 rounded-3xl border border-slate-700 shadow-2xl max-w-md w-full">
+            {offStrings.length === 0 ? (
+              <>
+                <CheckCircle2 size={80} className="text-green-400 mx-auto mb-6" />
+                <h3 className="text-3xl font-bold mb-4 bg-clip-text text-transparent bg-gradient-to-r from-green-400 to-emerald-600">
+                  All in tune!
+                </h3>
+                <p className="text-slate-300 mb-8">
+                  {strings.length === 1
+                    ? `${strings[0]} is`
+                    : `All ${strings.length} strings are`}{" "}
+                  within {TUNED_CENTS} cents.
+                </p>
+              </>
+            ) : (
+              <>
+                <AlertCircle size={64} className="text-amber-400 mx-auto mb-4" />
+                <h3 className="text-2xl font-bold mb-4 text-slate-100">
+                  {offStrings.length} of {strings.length} strings still off
+                </h3>
+                <ul className="text-left space-y-1 mb-8 max-h-64 overflow-y-auto">
+                  {offStrings.map((note) => {
+                    const cents = status[note]?.cents ?? null;
+                    return (
+                      <li
+                        key={note}
+                        className="flex justify-between bg-slate-900/50 rounded-lg px-3 py-1.5 text-sm"
+                      >
+                        <span className="font-bold text-slate-200">{note}</span>
+                        <span className={cents === null ? "text-slate-500" : "text-amber-400"}>
+                          {cents === null
+                            ? "not played"
+                            : `${formatCents(cents)} ${cents < 0 ? "flat" : "sharp"}`}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <button
+                  onClick={handleRetuneOff}
+                  className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 px-8 py-4 rounded-xl font-bold text-lg transition-all shadow-lg shadow-indigo-600/20 mb-3"
+                >
+                  <RotateCcw size={20} />
+                  Tune Remaining Strings
+                </button>
+              </>
+            )}
+            <button
+              onClick={onBack}
+              className="text-slate-400 hover:text-white text-sm py-2 px-6 rounded-lg hover:bg-slate-800 transition-colors"
+            >
+              Back to Menu
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* String overview */}
+            <div className="flex flex-wrap justify-center gap-1 max-w-3xl">
+              {strings.map((note, index) => {
+                const tuning = status[note];
+                return (
+                  <button
+                    key={note + index}
+                    onClick={() => selectString(index)}
+                    className={`min-w-[2.5rem] px-1.5 py-1 rounded-md text-[10px] sm:text-xs font-mono border transition-colors ${
+                      index === stringIndex
+                        ? "bg-indigo-600 border-indigo-400 text-white"
+                        : tuning?.tuned
+                        ? "bg-green-700/40 border-green-500/50 text-green-300"
+                        : tuning
+                        ? "bg-amber-500/20 border-amber-500/50 text-amber-300"
+                        : "bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500"
+                    }`}
+                  >
+                    {note}
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Current string */}
+            <div className="flex items-center gap-4 sm:gap-8">
+              <button
+                onClick={() => selectString((stringIndex - 1 + strings.length) % strings.length)}
+                className="p-2 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-300"
+                title="Previous string"
+              >
+                <ChevronLeft size={24} />
+              </button>
+              <div className="text-center">
+                <div className="text-xs text-slate-500 uppercase tracking-wider">
+                  String {stringIndex + 1} / {strings.length}
+                </div>
+                <div
+                  className={`text-6xl sm:text-7xl font-bold ${
+                    status[target]?.tuned ? "text-green-400" : "text-slate-100"
+                  }`}
+                >
+                  {target}
+                </div>
+                <div className="text-sm text-slate-400 font-mono">
+                  {targetFrequencies[target].toFixed(2)} Hz
+                </div>
+              </div>
+              <button
+                onClick={() => selectString((stringIndex + 1) % strings.length)}
+                className="p-2 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-300"
+                title="Next string"
+              >
+                <ChevronRight size={24} />
+              </button>
+            </div>
+
+            {/* Needle */}
+            <div className="w-full flex flex-col items-center">
+              <CentsNeedle cents={needleCents} />
+              <div className="h-12 text-center">
+                {needleCents === null ? (
+                  <p className="text-slate-500 text-sm">
+                    {isListening ? `Pluck ${target}` : "Start the tuner and pluck the string"}
+                  </p>
+                ) : (
+                  <>
+                    <p
+                      className={`text-2xl font-bold font-mono ${
+                        Math.abs(needleCents) <= TUNED_CENTS ? "text-green-400" : "text-amber-400"
+                      }`}
+                    >
+                      {formatCents(needleCents)}
+                      <span className="text-sm text-slate-500 ml-2">
+                        {frequency.toFixed(1)} Hz
+                      </span>
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {isFarOff
+                        ? "Far off - is this the right string?"
+                        : Math.abs(needleCents) <= TUNED_CENTS
+                        ? "Hold it..."
+                        : needleCents < 0
+                        ? "Too low - tighten the string"
+                        : "Too high - loosen the string"}
+                    </p>
+                  </>
+                )}
+              </div>
+              {/* Steady-hold progress */}
+              <div className="w-40 h-1 bg-slate-800 rounded-full overflow-hidden mt-2">
+                <div
+                  className="h-full bg-green-500 transition-all ease-linear"
+                  style={{ width: `${holdProgress * 100}%` }}
+                />
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex flex-col items-center gap-2">
+              {errorMsg && (
+                <div className="flex items-center gap-2 text-red-400 bg-red-900/20 px-4 py-2 rounded-lg border border-red-900/50">
+                  <AlertCircle size={18} />
+                  <span className="text-sm">{errorMsg}</span>
+                </div>
+              )}
+              {!isListening ? (
+                <button
+                  onClick={startListening}
+                  className="flex items-center gap-3 bg-green-500 hover:bg-green-400 text-slate-900 px-8 py-3 rounded-xl font-bold text-lg transition-all hover:scale-105 shadow-lg shadow-green-500/20 active:scale-95"
+                >
+                  <Mic size={24} />
+                  Start Tuner
+                </button>
+              ) : (
+                <button
+                  onClick={stopListening}
+                  className="text-slate-500 hover:text-red-400 text-sm py-2 px-6 rounded-lg hover:bg-slate-800 transition-colors"
+                >
+                  Stop / Pause
+                </button>
+              )}
+              <button
+                onClick={handleFinish}
+                className="text-slate-400 hover:text-white text-sm py-2 px-6 rounded-lg hover:bg-slate-800 transition-colors"
+              >
+                Finish
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,59 +1,198 @@
 import {
   Activity,
   AlertCircle,
+  AlertTriangle,
   ArrowLeft,
   CheckCircle2,
+  Gauge,
   Mic,
   RotateCcw,
   Settings2,
+  Square,
+  Timer,
+  Volume2,
   X,
 } from "lucide-react";
-import React, { useCallback, useEffect, useRef, useState } from "react";
-import { AudioEngine } from "../services/audioEngine";
-import { Song } from "../types";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  buildNoteFrequencies,
+  MAX_REFERENCE_PITCH,
+  MIN_REFERENCE_PITCH,
+  REFERENCE_PITCH_PRESETS,
+} from "../constants";
+import {
+  AudioConfig,
+  applyAudioConfig,
+  clampReferencePitch,
+} from "../services/audioConfig";
+import {
+  listInputDevices,
+  loadInputDevice,
+  saveInputDevice,
+} from "../services/audioDevices";
+import {
+  AudioEngine,
+  LevelEvent,
+  NoteOffEvent,
+  NoteOnEvent,
+  OnsetEvent,
+  StringDrift,
+} from "../services/audioEngine";
+import {
+  CALIBRATION_FRAMES,
+  isCalibrationSample,
+  summarizeCalibration,
+} from "../services/calibration";
+import { getTunedStrings, getTuning } from "../services/instruments";
+import { LyreSynth, getPhraseRange } from "../services/lyreSynth";
+import {
+  COUNT_IN_BAR_OPTIONS,
+  Metronome,
+  MetronomeClick,
+  getCountInStartBeat,
+  getSongClicks,
+} from "../services/metronome";
+import { normalizeNoteName } from "../services/pitch";
+import { PITCH_DETECTORS, PitchDetectorId } from "../services/pitchDetectors";
+import {
+  RHYTHM_GRADES,
+  RhythmGrade,
+  RhythmResult,
+  RhythmScorer,
+  RhythmSummary,
+  summarizeRhythm,
+} from "../services/rhythmScoring";
+import {
+  ProfileStore,
+  findProfileForDevice,
+  getActiveProfile,
+  loadProfiles,
+  saveProfiles,
+  setActiveProfile,
+  updateActiveConfig,
+} from "../services/profileStore";
+import {
+  getNoteIndexAtTime,
+  getSongTiming,
+  getTimeAtBeat,
+} from "../services/timing";
+import {
+  InstrumentProfile,
+  InstrumentSetup,
+  Note,
+  Song,
+  StringCalibration,
+} from "../types";
+import { AudioProfiles } from "./AudioProfiles";
+import { KeySignature } from "./KeySignature";
 import { NoteCircle } from "./NoteCircle";
+import { NoteHighway } from "./NoteHighway";
+import { TunerScreen } from "./TunerScreen";
 import { Visualizer } from "./Visualizer";
 
 interface TutorInterfaceProps {
   song: Song;
+  instrument: InstrumentProfile;
+  instrumentSetup: InstrumentSetup;
   onBack: () => void;
+  isPreview?: boolean; // An import not yet in the library
 }
 
-interface AudioConfig {
-  rmsThreshold: number;
-  correlationThreshold: number;
-  holdDuration: number;
-  gain: number;
+// Which hand(s) the student is practicing
+type HandMode = "melody" | "bass" | "both";
+
+const HAND_MODE_LABELS: Record<HandMode, string> = {
+  melody: "Melody",
+  bass: "Bass",
+  both: "Both",
+};
+
+// Wait mode holds each step until it is played; rhythm mode runs on a
+// clock at the song's tempo and grades the timing of every note
+type PracticeMode = "wait" | "rhythm";
+
+const PRACTICE_MODE_LABELS: Record<PracticeMode, string> = {
+  wait: "Wait",
+  rhythm: "Rhythm",
+};
+
+// Notes on a staff at equal spacing, or on string lanes spaced by duration
+type TimelineView = "staff" | "highway";
+
+const TIMELINE_VIEW_LABELS: Record<TimelineView, string> = {
+  staff: "Staff",
+  highway: "Highway",
+};
+
+const MIN_TEMPO_PERCENT = 50;
+const MAX_TEMPO_PERCENT = 120;
+
+const RHYTHM_GRADE_LABELS: Record<RhythmGrade, string> = {
+  perfect: "Perfect",
+  good: "Good",
+  early: "Early",
+  late: "Late",
+  miss: "Miss",
+};
+
+const RHYTHM_GRADE_COLORS: Record<RhythmGrade, string> = {
+  perfect: "text-green-400",
+  good: "text-emerald-300",
+  early: "text-amber-300",
+  late: "text-orange-400",
+  miss: "text-red-400",
+};
+
+// When a string last started and stopped ringing (audio clock seconds)
+interface NoteTiming {
+  on: number;
+  off: number | null; // Null while it rings
 }
 
-const STORAGE_KEY = "lyrehero-audio-config";
-
-const getDefaultConfig = (): AudioConfig => ({
-  rmsThreshold: 0.0005,
-  correlationThreshold: 0.01,
-  holdDuration: 100,
-  gain: 1.5,
-});
-
-const loadConfig = (): AudioConfig => {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      return { ...getDefaultConfig(), ...parsed };
-    }
-  } catch (e) {
-    console.warn("Failed to load audio config from localStorage:", e);
+// Melody and bass count as played together when heard within this window (ms)
+const CHORD_WINDOW_MS = 400;
+
+// A note is confirmed over several frames (~85 ms) after its pluck, so
+// rhythm grades use the onset heard at most this long before the noteOn
+const ONSET_LOOKBACK_MS = 250;
+
+// Tuning drift: only trust strings heard for ~2s, and check twice a second
+const DRIFT_MIN_SAMPLES = 100;
+const DRIFT_CHECK_INTERVAL_MS = 500;
+
+/**
+ * Notes that must be heard to complete a step in the given hand mode,
+ * spelled the way the pitch tracker reports them ("Gb4" -> "F#4").
+ * Steps without a bass note fall back to the melody so bass practice keeps moving.
+ */
+const getRequiredNotes = (noteObj: Note, handMode: HandMode): string[] => {
+  if (handMode === "melody" || !noteObj.bassNote) {
+    return [normalizeNoteName(noteObj.note)];
   }
-  return getDefaultConfig();
+  if (handMode === "bass") return [normalizeNoteName(noteObj.bassNote)];
+  return [normalizeNoteName(noteObj.note), normalizeNoteName(noteObj.bassNote)];
 };
 
 export const TutorInterface: React.FC<TutorInterfaceProps> = ({
   song,
+  instrument,
+  instrumentSetup,
   onBack,
+  isPreview = false,
 }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [detectedNote, setDetectedNote] = useState<string>("...");
+  const [heardNotes, setHeardNotes] = useState<string>("");
+  const hasBass = song.notes.some((n) => n.bassNote);
+  const [handMode, setHandMode] = useState<HandMode>(
+    hasBass ? "both" : "melody"
+  );
   const [isListening, setIsListening] = useState(false);
   const [isFinished, setIsFinished] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -67,32 +206,90 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
   const [showSettings, setShowSettings] = useState(false);
   const [isCalibrating, setIsCalibrating] = useState(false);
   const [calibrationPhase, setCalibrationPhase] = useState<
-    "idle" | "noise" | "note"
+    "idle" | "noise" | "note" | "strings"
   >("idle");
+  // Per-string calibration: string being measured and how far along it is
+  const [calibrationStringIndex, setCalibrationStringIndex] = useState(0);
+  const [calibrationProgress, setCalibrationProgress] = useState(0);
   const [noiseFloor, setNoiseFloor] = useState(0);
-  const [config, setConfig] = useState<AudioConfig>(loadConfig);
+  const [profiles, setProfiles] = useState<ProfileStore>(loadProfiles);
+  const [config, setConfig] = useState<AudioConfig>(
+    () => getActiveProfile(profiles).config
+  );
+  // Microphone actually in use, and the one picked in the settings
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [inputDeviceId, setInputDeviceId] = useState<string | null>(
+    loadInputDevice
+  );
+  const [isDisconnected, setIsDisconnected] = useState(false);
 
   const [noteProgress, setNoteProgress] = useState(0);
   const [streak, setStreak] = useState(0);
+  const [practiceMode, setPracticeMode] = useState<PracticeMode>("wait");
+  const [tempoPercent, setTempoPercent] = useState(100);
+  const [timelineView, setTimelineView] = useState<TimelineView>("staff");
+  const [isMetronomeOn, setIsMetronomeOn] = useState(true);
+  const [countInBars, setCountInBars] = useState<number>(1);
+  // Latest metronome click, for the beat pulse in the header
+  const [beatPulse, setBeatPulse] = useState<
+    (MetronomeClick & { count: number }) | null
+  >(null);
+  // Rhythm mode: grade of every note so far, beats left before the song
+  // starts, and the result of the finished run
+  const [rhythmGrades, setRhythmGrades] = useState<
+    Record<number, RhythmGrade>
+  >({});
+  const [countIn, setCountIn] = useState<number | null>(null);
+  const [rhythmSummary, setRhythmSummary] = useState<RhythmSummary | null>(
+    null
+  );
   const [showParticles, setShowParticles] = useState(false);
   const [particlePosition, setParticlePosition] = useState({ x: 0, y: 0 });
 
-  const audioEngineRef = useRef<AudioEngine | null>(null);
-  const requestRef = useRef<number>(0);
-  const lastNoteTimeRef = useRef<number>(0);
+  // String that drifted out of tune, and the one being retuned
+  const [driftWarning, setDriftWarning] = useState<StringDrift | null>(null);
+  const [retuneDrift, setRetuneDrift] = useState<StringDrift | null>(null);
+
+  // Note being played back by the synth, null when not playing
+  const [playbackIndex, setPlaybackIndex] = useState<number | null>(null);
 
-  const holdStartTimeRef = useRef<number | null>(null);
+  const audioEngineRef = useRef<AudioEngine | null>(null);
   const currentIndexRef = useRef(0);
-  const isListeningRef = useRef(false);
   const isCalibratingRef = useRef(false);
   const configRef = useRef(config);
-  const lastCompletedNoteRef = useRef<string | null>(null);
-  const requireSilenceRef = useRef(false);
+  const handModeRef = useRef(handMode);
+  // Every string's timing, from the engine's note events
+  const notesRef = useRef<Record<string, NoteTiming>>({});
+  // Only plucks after this time count for the current step, so a string
+  // still ringing from the previous step has to be plucked again
+  const stepStartRef = useRef(0);
+  const lastDriftCheckRef = useRef(0);
+  const isStringCalibrationRef = useRef(false);
+  const calibrationStringIndexRef = useRef(0);
+  const calibrationSamplesRef = useRef<StringCalibration[]>([]);
+  const dismissedDriftRef = useRef<Set<string>>(new Set());
+  const inputDeviceIdRef = useRef(inputDeviceId);
+  const synthRef = useRef<LyreSynth | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  // The microphone hears the playback, so it is not graded meanwhile
+  const isPlayingBackRef = useRef(false);
+  const practiceModeRef = useRef(practiceMode);
+  const rhythmScorerRef = useRef<RhythmScorer | null>(null);
+  // Audio clock time of the first note, null when no rhythm run is going
+  const rhythmStartRef = useRef<number | null>(null);
+  // Audio clock time of the latest pluck
+  const lastOnsetRef = useRef<number | null>(null);
 
   // Sync refs
   useEffect(() => {
     currentIndexRef.current = currentIndex;
-    const activeNoteEl = document.getElementById(`note-${currentIndex}`);
+  }, [currentIndex]);
+
+  // The highlight follows the playback, then returns to the current step
+  const highlightedIndex = playbackIndex ?? currentIndex;
+  useEffect(() => {
+    const activeNoteEl = document.getElementById(`note-${highlightedIndex}`);
     if (activeNoteEl) {
       activeNoteEl.scrollIntoView({
         behavior: "smooth",
@@ -100,83 +297,298 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
         inline: "center",
       });
     }
-  }, [currentIndex]);
-
-  useEffect(() => {
-    isListeningRef.current = isListening;
-  }, [isListening]);
+  }, [highlightedIndex, timelineView]);
 
   useEffect(() => {
     isCalibratingRef.current = isCalibrating;
   }, [isCalibrating]);
 
+  useEffect(() => {
+    handModeRef.current = handMode;
+    setNoteProgress(0);
+  }, [handMode]);
+
+  useEffect(() => {
+    practiceModeRef.current = practiceMode;
+  }, [practiceMode]);
+
+  const songTiming = useMemo(() => getSongTiming(song), [song]);
+  const tempoScale = tempoPercent / 100;
+
   useEffect(() => {
     configRef.current = config;
     if (audioEngineRef.current && !isCalibrating) {
-      audioEngineRef.current.rmsThreshold = config.rmsThreshold;
-      audioEngineRef.current.correlationThreshold = config.correlationThreshold;
-      audioEngineRef.current.setGain(config.gain);
-    }
-    // Save to localStorage
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-    } catch (e) {
-      console.warn("Failed to save audio config to localStorage:", e);
+      applyAudioConfig(audioEngineRef.current, config);
     }
+    setProfiles((prev) => updateActiveConfig(prev, config));
   }, [config, isCalibrating]);
 
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  // Switching profile loads its settings
+  useEffect(() => {
+    setConfig(getActiveProfile(profiles).config);
+  }, [profiles.activeId]);
+
   // Initialize Audio Engine
   useEffect(() => {
     audioEngineRef.current = new AudioEngine();
-    audioEngineRef.current.rmsThreshold = config.rmsThreshold;
-    audioEngineRef.current.correlationThreshold = config.correlationThreshold;
-    audioEngineRef.current.setGain(config.gain);
+    applyAudioConfig(audioEngineRef.current, config);
 
     return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
       audioEngineRef.current?.stop();
     };
   }, []);
 
+  const tunedStrings = useMemo(
+    () => getTunedStrings(instrument, instrumentSetup),
+    [instrument, instrumentSetup]
+  );
+  const keySignature = getTuning(instrumentSetup.tuningId).sharps;
+  // The same strings with every lever down, as the tuner names them
+  const openStrings = useMemo(
+    () =>
+      getTunedStrings(instrument, {
+        tuningId: instrumentSetup.tuningId,
+        levers: [],
+      }),
+    [instrument, instrumentSetup.tuningId]
+  );
+
+  useEffect(() => {
+    audioEngineRef.current?.setStrings(tunedStrings);
+  }, [tunedStrings]);
+
+  useEffect(() => {
+    const step = song.notes[currentIndex];
+    audioEngineRef.current?.setExpectedNotes(
+      step ? getRequiredNotes(step, handMode) : []
+    );
+  }, [song, currentIndex, handMode]);
+
+  // Expected pitch of each string, read by the calibration inside the loop
+  const stringFrequenciesRef = useRef<Record<string, number>>({});
+  const tunedStringsRef = useRef(tunedStrings);
+  useEffect(() => {
+    tunedStringsRef.current = tunedStrings;
+    stringFrequenciesRef.current = buildNoteFrequencies(
+      config.referencePitch,
+      tunedStrings
+    );
+  }, [tunedStrings, config.referencePitch]);
+
+  const refreshInputDevices = useCallback(async () => {
+    setInputDevices(await listInputDevices());
+  }, []);
+
+  /**
+   * Open the chosen microphone and switch to the profile tied to it, if any
+   */
+  const startEngine = async () => {
+    if (!audioEngineRef.current) return;
+    await audioEngineRef.current.start(inputDeviceIdRef.current ?? undefined);
+    // Every start has a new audio clock
+    notesRef.current = {};
+    stepStartRef.current = 0;
+    setIsDisconnected(false);
+    refreshInputDevices(); // Labels are only visible with permission
+
+    const id = audioEngineRef.current.getDeviceId();
+    setDeviceId(id);
+    setProfiles((prev) => {
+      const match = findProfileForDevice(prev, id);
+      return match ? setActiveProfile(prev, match.id) : prev;
+    });
+  };
+
+  /**
+   * Start the song clock after the count-in, with the metronome clicking it
+   */
+  const startRhythmRun = () => {
+    if (!audioEngineRef.current) return;
+    const context = audioEngineRef.current.getAudioContext();
+    const countInMs = -getTimeAtBeat(
+      songTiming,
+      getCountInStartBeat(songTiming, countInBars)
+    );
+    // Small lead so the first click is not scheduled in the past
+    const startTime = context.currentTime + 0.1 + countInMs / 1000 / tempoScale;
+
+    rhythmScorerRef.current = new RhythmScorer(
+      songTiming.notes.map((timed) => ({
+        index: timed.index,
+        timeMs: timed.startMs / tempoScale,
+        notes: getRequiredNotes(song.notes[timed.index], handModeRef.current),
+      }))
+    );
+    rhythmStartRef.current = startTime;
+
+    if (metronomeRef.current?.context !== context) {
+      metronomeRef.current?.stop();
+      metronomeRef.current = new Metronome(context);
+    }
+    metronomeRef.current.onClick = (click) => {
+      setBeatPulse((prev) => ({ ...click, count: (prev?.count ?? 0) + 1 }));
+      setCountIn(click.isCountIn ? -click.beat : null);
+    };
+    metronomeRef.current.start(
+      getSongClicks(songTiming, {
+        startTime,
+        tempoScale,
+        countInBars,
+        withSong: isMetronomeOn,
+      })
+    );
+
+    setRhythmGrades({});
+    setRhythmSummary(null);
+    setCurrentIndex(0);
+    setStreak(0);
+  };
+
+  // Song position of the rhythm run in ms at the song's own tempo, for
+  // scrolling the note highway between analysis frames
+  const getRhythmTimeMs = useCallback((): number | null => {
+    const rhythmStart = rhythmStartRef.current;
+    if (rhythmStart === null || !audioEngineRef.current) return null;
+    const now = audioEngineRef.current.getAudioContext().currentTime;
+    return (now - rhythmStart) * 1000 * tempoScale;
+  }, [tempoScale]);
+
+  const recordRhythmResults = useCallback((results: RhythmResult[]) => {
+    if (results.length === 0) return;
+    setRhythmGrades((prev) => {
+      const next = { ...prev };
+      for (const result of results) next[result.index] = result.grade;
+      return next;
+    });
+    for (const result of results) {
+      const isOnTime = result.grade === "perfect" || result.grade === "good";
+      setStreak((prev) => (isOnTime ? prev + 1 : 0));
+    }
+  }, []);
+
   const startListening = async () => {
     setErrorMsg(null);
     if (audioEngineRef.current) {
       try {
-        await audioEngineRef.current.start();
-        // Update ref IMMEDIATELY before starting the loop
-        isListeningRef.current = true;
+        await startEngine();
         setIsListening(true);
-        checkPitch();
+        if (practiceModeRef.current === "rhythm") startRhythmRun();
       } catch (err) {
         console.error("Microphone access denied or error:", err);
         setErrorMsg("Could not access microphone. Please check permissions.");
         setIsListening(false);
-        isListeningRef.current = false;
       }
     }
   };
 
+  const stopPlayback = useCallback(() => {
+    if (!isPlayingBackRef.current) return;
+    synthRef.current?.stop();
+    isPlayingBackRef.current = false;
+    setPlaybackIndex(null);
+    // Plucks the microphone heard during playback don't count
+    stepStartRef.current = synthRef.current?.context.currentTime ?? 0;
+  }, []);
+
+  /**
+   * Play the whole song, or the phrase of the current note, on the synth
+   */
+  const playReference = async (range: "song" | "phrase") => {
+    if (!audioEngineRef.current) return;
+    const context = audioEngineRef.current.getAudioContext();
+    if (synthRef.current?.context !== context) {
+      synthRef.current?.stop();
+      synthRef.current = new LyreSynth(context);
+    }
+
+    const { start, end } =
+      range === "song"
+        ? { start: 0, end: song.notes.length }
+        : getPhraseRange(song.notes, currentIndex);
+
+    setErrorMsg(null);
+    isPlayingBackRef.current = true;
+    setPlaybackIndex(start);
+    setNoteProgress(0);
+    try {
+      await synthRef.current.play(song, {
+        start,
+        end,
+        referencePitch: config.referencePitch,
+        tempoScale,
+        withBass: handMode !== "melody",
+        onNote: setPlaybackIndex,
+        onEnd: stopPlayback,
+      });
+    } catch (err) {
+      console.error("Playback failed:", err);
+      setErrorMsg("Could not play this song.");
+      stopPlayback();
+    }
+  };
+
   const stopListening = useCallback(() => {
+    // Closing the engine's AudioContext ends the playback too
+    stopPlayback();
+    // A rhythm run can't be resumed, the next start begins a new one
+    rhythmStartRef.current = null;
+    metronomeRef.current?.stop();
+    setCountIn(null);
+    setBeatPulse(null);
     if (audioEngineRef.current) {
       audioEngineRef.current.stop();
     }
-    if (requestRef.current) cancelAnimationFrame(requestRef.current);
     setIsListening(false);
     setDetectedNote("...");
+    setHeardNotes("");
     setNoteProgress(0);
-    holdStartTimeRef.current = null;
+    notesRef.current = {};
     setCurrentRms(0);
     setCurrentClarity(0);
     setCurrentFreq(0);
-  }, []);
+  }, [stopPlayback]);
 
-  const handleCorrectNote = useCallback(() => {
-    const now = Date.now();
-    if (now - lastNoteTimeRef.current < 500) return;
+  // Keep the device list current, and pause instead of polling a dead
+  // stream when the microphone goes away
+  useEffect(() => {
+    refreshInputDevices();
+    navigator.mediaDevices?.addEventListener?.(
+      "devicechange",
+      refreshInputDevices
+    );
+    if (audioEngineRef.current) {
+      audioEngineRef.current.onDisconnect = () => {
+        stopListening();
+        setIsDisconnected(true);
+      };
+    }
+    return () => {
+      navigator.mediaDevices?.removeEventListener?.(
+        "devicechange",
+        refreshInputDevices
+      );
+    };
+  }, [refreshInputDevices, stopListening]);
+
+  const handleSelectInputDevice = async (id: string | null) => {
+    saveInputDevice(id);
+    setInputDeviceId(id);
+    inputDeviceIdRef.current = id;
+    // Switch right away when already listening
+    if (isListening) {
+      stopListening();
+      await startListening();
+    }
+  };
 
-    lastNoteTimeRef.current = now;
+  const handleCorrectNote = useCallback((time: number) => {
+    // Repeating a note takes a fresh pluck
+    stepStartRef.current = time;
     setNoteProgress(0);
-    holdStartTimeRef.current = null;
 
     // Increment streak
     setStreak((prev) => prev + 1);
@@ -195,21 +607,6 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
       setTimeout(() => setShowParticles(false), 1000);
     }
 
-    // Store the completed note
-    const completedNote = song.notes[currentIndexRef.current].note;
-    lastCompletedNoteRef.current = completedNote;
-
-    // Check if next note is the same - if so, require silence before accepting it
-    const nextIndex = currentIndexRef.current + 1;
-    if (
-      nextIndex < song.notes.length &&
-      song.notes[nextIndex].note === completedNote
-    ) {
-      requireSilenceRef.current = true;
-    } else {
-      requireSilenceRef.current = false;
-    }
-
     if (currentIndexRef.current < song.notes.length - 1) {
       setCurrentIndex((prev) => prev + 1);
     } else {
@@ -218,100 +615,295 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
     }
   }, [song.notes, stopListening]);
 
-  const checkPitch = useCallback(() => {
-    // Stop loop if not listening
-    if (!isListeningRef.current) {
-      requestRef.current = 0;
-      return;
+  const finishStringCalibration = useCallback(() => {
+    isStringCalibrationRef.current = false;
+    calibrationSamplesRef.current = [];
+    setCalibrationProgress(0);
+    setCalibrationPhase("idle");
+    setIsCalibrating(false);
+  }, []);
+
+  const selectCalibrationString = useCallback(
+    (index: number) => {
+      if (index >= tunedStringsRef.current.length) {
+        finishStringCalibration();
+        return;
+      }
+      calibrationStringIndexRef.current = index;
+      calibrationSamplesRef.current = [];
+      setCalibrationStringIndex(index);
+      setCalibrationProgress(0);
+    },
+    [finishStringCalibration]
+  );
+
+  /**
+   * Collect frames of the string being calibrated; once there are enough,
+   * store its typical frequency, volume and clarity and move to the next
+   */
+  const collectCalibrationSample = useCallback(
+    (event: LevelEvent) => {
+      const note = tunedStringsRef.current[calibrationStringIndexRef.current];
+      const sample: StringCalibration = {
+        frequency: event.frequency,
+        rms: event.rms,
+        clarity: event.clarity,
+      };
+      if (
+        !isCalibrationSample(
+          sample,
+          stringFrequenciesRef.current[note],
+          configRef.current.rmsThreshold
+        )
+      ) {
+        return;
+      }
+
+      const samples = calibrationSamplesRef.current;
+      samples.push(sample);
+      setCalibrationProgress(samples.length / CALIBRATION_FRAMES);
+      if (samples.length < CALIBRATION_FRAMES) return;
+
+      const measured = summarizeCalibration(samples);
+      setConfig((prev) => ({
+        ...prev,
+        stringCalibration: { ...prev.stringCalibration, [note]: measured },
+      }));
+      selectCalibrationString(calibrationStringIndexRef.current + 1);
+    },
+    [selectCalibrationString]
+  );
+
+  /**
+   * Warn about the string furthest off, unless the student dismissed it
+   */
+  const checkDrift = useCallback(() => {
+    if (!audioEngineRef.current) return;
+    const { driftWarningCents } = configRef.current;
+    let worst: StringDrift | null = null;
+    for (const drift of audioEngineRef.current.getDrift()) {
+      if (
+        drift.samples >= DRIFT_MIN_SAMPLES &&
+        Math.abs(drift.cents) >= driftWarningCents &&
+        !dismissedDriftRef.current.has(drift.note) &&
+        (!worst || Math.abs(drift.cents) > Math.abs(worst.cents))
+      ) {
+        worst = drift;
+      }
     }
+    setDriftWarning(worst);
+  }, []);
 
-    if (!audioEngineRef.current) {
-      requestRef.current = requestAnimationFrame(checkPitch);
-      return;
+  const dismissDrift = () => {
+    if (driftWarning) dismissedDriftRef.current.add(driftWarning.note);
+    setDriftWarning(null);
+  };
+
+  const handleRetune = () => {
+    if (!driftWarning) return;
+    stopListening();
+    setRetuneDrift(driftWarning);
+    setDriftWarning(null);
+  };
+
+  const handleRetuneDone = () => {
+    if (retuneDrift) {
+      audioEngineRef.current?.resetDrift(retuneDrift.note);
+      dismissedDriftRef.current.delete(retuneDrift.note);
     }
+    setRetuneDrift(null);
+  };
 
-    const result = audioEngineRef.current.detectPitch();
-
-    if (result) {
-      // ALWAYS update debug stats
-      setCurrentRms(result.volume);
-      setCurrentClarity(result.clarity);
-      setCurrentFreq(result.frequency);
-
-      // Debug log every ~0.5 seconds
-      if (Math.random() < 0.033) {
-        console.log("UI checkPitch:", {
-          rms: result.volume.toFixed(4),
-          clarity: result.clarity.toFixed(3),
-          freq: result.frequency.toFixed(1),
-        });
+  /**
+   * Show the strings that are ringing right now, latest pluck first
+   */
+  const showSoundingNotes = () => {
+    const notes: Record<string, NoteTiming> = notesRef.current;
+    const sounding = Object.entries(notes)
+      .filter(([, state]) => state.off === null)
+      .sort(([, a], [, b]) => b.on - a.on)
+      .map(([note]) => note);
+    setDetectedNote(sounding[0] ?? "...");
+    setHeardNotes(sounding.join(" "));
+  };
+
+  const handleNoteOn = useCallback(
+    (event: NoteOnEvent) => {
+      notesRef.current[event.note] = { on: event.time, off: null };
+      showSoundingNotes();
+
+      const rhythmStart = rhythmStartRef.current;
+      if (
+        rhythmStart !== null &&
+        rhythmScorerRef.current &&
+        !isPlayingBackRef.current
+      ) {
+        // Grade the pluck, not the moment the note was confirmed
+        const onset = lastOnsetRef.current;
+        const pluckedAt =
+          onset !== null &&
+          onset <= event.time &&
+          (event.time - onset) * 1000 <= ONSET_LOOKBACK_MS
+            ? onset
+            : event.time;
+        const result = rhythmScorerRef.current.noteOn(
+          event.note,
+          (pluckedAt - rhythmStart) * 1000
+        );
+        if (result) recordRhythmResults([result]);
       }
+    },
+    [recordRhythmResults]
+  );
 
-      const idx = currentIndexRef.current;
-      const targetNote = song.notes[idx];
-      const { holdDuration } = configRef.current;
-
-      // Check if result is valid note based on Engine's internal check + our loop check
-      if (result.note) {
-        setDetectedNote(result.note);
-
-        // Only do note matching if not calibrating
-        if (
-          !isCalibratingRef.current &&
-          targetNote &&
-          result.note === targetNote.note
-        ) {
-          // If we need silence before accepting this note (duplicate note scenario)
-          if (requireSilenceRef.current) {
-            // Don't start the hold timer, just stay in waiting state
-            holdStartTimeRef.current = null;
-            setNoteProgress(0);
-          } else {
-            // Normal note matching logic
-            if (!holdStartTimeRef.current) {
-              holdStartTimeRef.current = Date.now();
-            }
-
-            const elapsed = Date.now() - holdStartTimeRef.current;
-            const progress = Math.min(elapsed / holdDuration, 1);
-            setNoteProgress(progress);
-
-            if (elapsed >= holdDuration) {
-              handleCorrectNote();
-            }
-          }
-        } else {
-          holdStartTimeRef.current = null;
-          setNoteProgress(0);
-        }
-      } else {
-        // No note detected - clear the "require silence" flag if we were waiting
-        if (requireSilenceRef.current) {
-          requireSilenceRef.current = false;
+  const finishRhythmRun = useCallback(() => {
+    const scorer = rhythmScorerRef.current;
+    if (!scorer) return;
+    setRhythmSummary(summarizeRhythm(scorer.getResults()));
+    setIsFinished(true);
+    stopListening();
+  }, [stopListening]);
+
+  /**
+   * Rhythm mode: move the highlight with the song clock, grade the notes
+   * nobody played and finish after the last one
+   */
+  const advanceRhythmRun = useCallback(
+    (time: number) => {
+      const rhythmStart = rhythmStartRef.current;
+      const scorer = rhythmScorerRef.current;
+      if (rhythmStart === null || !scorer) return;
+
+      const elapsedMs = (time - rhythmStart) * 1000;
+      if (elapsedMs >= 0) setCountIn(null);
+      const index = getNoteIndexAtTime(songTiming, elapsedMs * tempoScale);
+      if (index >= 0) setCurrentIndex(index);
+
+      recordRhythmResults(scorer.advance(elapsedMs));
+      if (scorer.isDone()) finishRhythmRun();
+    },
+    [songTiming, tempoScale, recordRhythmResults, finishRhythmRun]
+  );
+
+  const handleOnset = useCallback((event: OnsetEvent) => {
+    lastOnsetRef.current = event.time;
+  }, []);
+
+  const handleNoteOff = useCallback((event: NoteOffEvent) => {
+    const state = notesRef.current[event.note];
+    if (state) state.off = event.time;
+    showSoundingNotes();
+  }, []);
+
+  /**
+   * Runs once per analysis frame: meters, calibration, drift and the hold
+   * timer of the current step (or the song clock in rhythm mode)
+   */
+  const handleLevel = useCallback(
+    (event: LevelEvent) => {
+      setCurrentRms(event.rms);
+      setCurrentClarity(event.clarity);
+      setCurrentFreq(event.frequency);
+
+      if (isStringCalibrationRef.current) {
+        collectCalibrationSample(event);
+      }
+
+      const now = Date.now();
+      if (now - lastDriftCheckRef.current >= DRIFT_CHECK_INTERVAL_MS) {
+        lastDriftCheckRef.current = now;
+        checkDrift();
+      }
+
+      if (practiceModeRef.current === "rhythm") {
+        if (!isCalibratingRef.current && !isPlayingBackRef.current) {
+          advanceRhythmRun(event.time);
         }
+        return;
+      }
 
-        setDetectedNote("...");
-        holdStartTimeRef.current = null;
+      const targetNote = song.notes[currentIndexRef.current];
+      if (isCalibratingRef.current || isPlayingBackRef.current || !targetNote) {
+        return;
+      }
+
+      // Every required string must be plucked during this step. Melody and
+      // bass plucked slightly apart still count as one step, so a string
+      // that has only just stopped is still heard.
+      const required = getRequiredNotes(targetNote, handModeRef.current);
+      const isTargetHeard = required.every((note) => {
+        const state = notesRef.current[note];
+        return (
+          !!state &&
+          state.on >= stepStartRef.current &&
+          (state.off === null ||
+            (event.time - state.off) * 1000 <= CHORD_WINDOW_MS)
+        );
+      });
+      if (!isTargetHeard) {
         setNoteProgress(0);
+        return;
       }
-    }
 
-    requestRef.current = requestAnimationFrame(checkPitch);
-  }, [song.notes, handleCorrectNote]);
+      // Held since the last of them was plucked
+      const pluckedAt = Math.max(
+        ...required.map((note) => notesRef.current[note].on)
+      );
+      const elapsed = (event.time - pluckedAt) * 1000;
+      const progress = Math.min(elapsed / configRef.current.holdDuration, 1);
+      setNoteProgress(progress);
+      if (progress >= 1) handleCorrectNote(event.time);
+    },
+    [
+      song.notes,
+      handleCorrectNote,
+      checkDrift,
+      collectCalibrationSample,
+      advanceRhythmRun,
+    ]
+  );
+
+  // The lesson reacts to engine events instead of polling every frame
+  useEffect(() => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+    const unsubscribers = [
+      engine.on("onset", handleOnset),
+      engine.on("noteOn", handleNoteOn),
+      engine.on("noteOff", handleNoteOff),
+      engine.on("level", handleLevel),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [handleOnset, handleNoteOn, handleNoteOff, handleLevel]);
+
+  const handleSelectPracticeMode = (mode: PracticeMode) => {
+    if (mode === practiceMode) return;
+    stopListening();
+    setPracticeMode(mode);
+    setCurrentIndex(0);
+    setRhythmGrades({});
+    setRhythmSummary(null);
+    setStreak(0);
+  };
 
   const handleRestart = () => {
     setCurrentIndex(0);
     setIsFinished(false);
-    lastNoteTimeRef.current = 0;
     setErrorMsg(null);
     setNoteProgress(0);
-    holdStartTimeRef.current = null;
-    lastCompletedNoteRef.current = null;
-    requireSilenceRef.current = false;
+    notesRef.current = {};
+    stepStartRef.current = 0;
     setStreak(0);
     startListening();
   };
 
+  const heardNoteList = heardNotes ? heardNotes.split(" ") : [];
+  const isCurrentStepHeard =
+    !!song.notes[currentIndex] &&
+    getRequiredNotes(song.notes[currentIndex], handMode).every((required) =>
+      heardNoteList.includes(required)
+    );
+
   const startNoiseCalibration = async () => {
     if (!audioEngineRef.current) return;
 
@@ -322,17 +914,12 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
 
     if (!isListening) {
       try {
-        await audioEngineRef.current.start();
-        // Update ref IMMEDIATELY before starting the loop
-        isListeningRef.current = true;
+        await startEngine();
         setIsListening(true);
-        // Start the checkPitch loop
-        checkPitch();
       } catch (e) {
         setErrorMsg("Cannot start microphone for calibration.");
         setIsCalibrating(false);
         setCalibrationPhase("idle");
-        isListeningRef.current = false;
         return;
       }
     }
@@ -366,17 +953,12 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
 
     if (!isListening) {
       try {
-        await audioEngineRef.current.start();
-        // Update ref IMMEDIATELY before starting the loop
-        isListeningRef.current = true;
+        await startEngine();
         setIsListening(true);
-        // Start the checkPitch loop
-        checkPitch();
       } catch (e) {
         setErrorMsg("Cannot start microphone for calibration.");
         setIsCalibrating(false);
         setCalibrationPhase("idle");
-        isListeningRef.current = false;
         return;
       }
     }
@@ -419,6 +1001,35 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
     }
   };
 
+  const startStringCalibration = async () => {
+    if (!audioEngineRef.current) return;
+
+    setIsCalibrating(true);
+    setCalibrationPhase("strings");
+    setErrorMsg(null);
+    selectCalibrationString(0);
+    isStringCalibrationRef.current = true;
+
+    if (!isListening) {
+      try {
+        await startEngine();
+        setIsListening(true);
+      } catch (e) {
+        setErrorMsg("Cannot start microphone for calibration.");
+        finishStringCalibration();
+        return;
+      }
+    }
+  };
+
+  const clearStringCalibration = () => {
+    setConfig((prev) => ({ ...prev, stringCalibration: {} }));
+  };
+
+  const calibratedStringCount = tunedStrings.filter(
+    (note) => config.stringCalibration[note]
+  ).length;
+
   const increaseGain = () => {
     const newGain = Math.min(config.gain + 0.5, 5.0);
     setConfig((prev) => ({ ...prev, gain: newGain }));
@@ -496,13 +1107,39 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
           className="p-1 sm:p-2 hover:bg-slate-800 rounded-lg transition-colors text-slate-400 hover:text-white flex items-center gap-1 sm:gap-2 text-sm sm:text-base flex-shrink-0"
         >
           <ArrowLeft size={18} className="sm:w-5 sm:h-5" />
-          <span className="hidden sm:inline">Back</span>
+          <span className="hidden sm:inline">
+            {isPreview ? "Back to import" : "Back"}
+          </span>
         </button>
         <div className="text-center flex-1 min-w-0">
           <h2 className="text-base sm:text-xl font-bold truncate">
+            {isPreview && (
+              <span className="mr-2 px-2 py-0.5 rounded-full bg-indigo-600/20 text-indigo-300 text-xs align-middle">
+                Preview
+              </span>
+            )}
             {song.title}
           </h2>
-          <p className="text-slate-400 text-xs">
+          <p className="text-slate-400 text-xs flex items-center justify-center gap-2">
+            {beatPulse && (
+              <span
+                className="relative flex w-2.5 h-2.5"
+                title={`Beat ${beatPulse.beatInBar + 1}`}
+              >
+                <span
+                  key={beatPulse.count}
+                  className={`absolute inset-0 rounded-full animate-ping ${
+                    beatPulse.isAccent ? "bg-yellow-400" : "bg-indigo-400"
+                  }`}
+                  style={{ animationIterationCount: 1 }}
+                />
+                <span
+                  className={`relative w-2.5 h-2.5 rounded-full ${
+                    beatPulse.isAccent ? "bg-yellow-400" : "bg-indigo-400"
+                  }`}
+                />
+              </span>
+            )}
             {isFinished
               ? "Complete"
               : `Note ${currentIndex + 1} / ${song.notes.length}`}
@@ -520,6 +1157,72 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
         </div>
       </div>
 
+      {/* Microphone lost - the lesson is paused until it is back */}
+      {isDisconnected && !isFinished && (
+        <div className="flex items-center gap-2 sm:gap-3 px-3 sm:px-4 py-2 bg-red-900/20 border-y border-red-900/50 text-red-300 text-xs sm:text-sm shrink-0 z-20 animate-in slide-in-from-top">
+          <AlertCircle size={16} className="flex-shrink-0" />
+          <span className="flex-1 min-w-0">
+            Microphone disconnected. The lesson is paused.
+          </span>
+          <button
+            onClick={startListening}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 font-medium flex-shrink-0"
+          >
+            <Mic size={14} />
+            Reconnect
+          </button>
+          <button
+            onClick={() => setIsDisconnected(false)}
+            className="p-1 rounded-md hover:bg-red-500/20 flex-shrink-0"
+            title="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Tuning drift warning - playing continues underneath */}
+      {driftWarning && !isFinished && (
+        <div className="flex items-center gap-2 sm:gap-3 px-3 sm:px-4 py-2 bg-amber-500/10 border-y border-amber-500/30 text-amber-300 text-xs sm:text-sm shrink-0 z-20 animate-in slide-in-from-top">
+          <AlertTriangle size={16} className="flex-shrink-0" />
+          <span className="flex-1 min-w-0">
+            <span className="font-bold">{driftWarning.note}</span> sounds{" "}
+            {Math.abs(Math.round(driftWarning.cents))} cents{" "}
+            {driftWarning.cents < 0 ? "flat" : "sharp"}. Notes on this string
+            may stop registering.
+          </span>
+          <button
+            onClick={handleRetune}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/50 font-medium flex-shrink-0"
+          >
+            <Gauge size={14} />
+            Retune
+          </button>
+          <button
+            onClick={dismissDrift}
+            className="p-1 rounded-md hover:bg-amber-500/20 flex-shrink-0"
+            title="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Quick retune of the drifted string */}
+      {retuneDrift && (
+        <div className="absolute inset-0 z-50 bg-slate-900">
+          <TunerScreen
+            instrument={instrument}
+            instrumentSetup={instrumentSetup}
+            strings={[
+              openStrings[tunedStrings.indexOf(retuneDrift.note)] ??
+                retuneDrift.note,
+            ]}
+            onBack={handleRetuneDone}
+          />
+        </div>
+      )}
+
       {/* Main Area */}
       <div className="flex-1 flex flex-col relative overflow-hidden">
         {isFinished ? (
@@ -532,6 +1235,53 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
               <p className="text-slate-300 mb-8 text-lg">
                 Great job playing {song.title}
               </p>
+              {rhythmSummary && (
+                <div className="mb-8 space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="bg-slate-900/60 rounded-xl p-3 border border-slate-700">
+                      <div className="text-3xl font-bold text-green-400">
+                        {Math.round(rhythmSummary.onTimeRate * 100)}%
+                      </div>
+                      <div className="text-xs text-slate-400 uppercase tracking-wider">
+                        On time
+                      </div>
+                    </div>
+                    <div className="bg-slate-900/60 rounded-xl p-3 border border-slate-700">
+                      <div className="text-3xl font-bold text-indigo-300">
+                        {Math.round(rhythmSummary.hitRate * 100)}%
+                      </div>
+                      <div className="text-xs text-slate-400 uppercase tracking-wider">
+                        Notes played
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex justify-center gap-3 text-sm">
+                    {RHYTHM_GRADES.map((grade) => (
+                      <div key={grade} className="flex flex-col items-center">
+                        <span className={`font-bold ${RHYTHM_GRADE_COLORS[grade]}`}>
+                          {rhythmSummary.counts[grade]}
+                        </span>
+                        <span className="text-[10px] text-slate-500 uppercase">
+                          {RHYTHM_GRADE_LABELS[grade]}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {rhythmSummary.meanOffsetMs !== null &&
+                    rhythmSummary.spreadMs !== null && (
+                      <p className="text-sm text-slate-400">
+                        {Math.abs(rhythmSummary.meanOffsetMs) < 15
+                          ? "Right on the beat on average"
+                          : `On average ${Math.round(
+                              Math.abs(rhythmSummary.meanOffsetMs)
+                            )} ms ${
+                              rhythmSummary.meanOffsetMs < 0 ? "early" : "late"
+                            }`}
+                        , ±{Math.round(rhythmSummary.spreadMs)} ms spread
+                      </p>
+                    )}
+                </div>
+              )}
               <button
                 onClick={handleRestart}
                 className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 px-8 py-4 rounded-xl font-bold text-lg transition-all shadow-lg shadow-indigo-600/20"
@@ -545,95 +1295,180 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
           <div className="flex-1 flex flex-col min-h-0">
             {/* Song Timeline */}
             <div className="flex-1 flex flex-col items-center justify-center relative w-full overflow-y-hidden overflow-x-visible bg-gradient-to-b from-slate-900 to-slate-800">
-              <div className="absolute left-1/2 top-0 bottom-0 w-px bg-indigo-500/20 z-0"></div>
-
-              {/* Right Hand (Melody) - Top Row */}
-              <div className="relative w-full overflow-x-auto scrollbar-hide touch-scroll">
-                <div className="relative z-10 flex items-center px-[50%] py-3 sm:py-4 gap-4 sm:gap-8 snap-x snap-mandatory">
-                  {song.notes.map((noteObj, idx) => {
-                    const isActive = idx === currentIndex;
-                    const isPast = idx < currentIndex;
-
-                    return (
-                      <div
-                        key={idx}
-                        id={`note-${idx}`}
-                        className={`
-                          relative shrink-0 flex flex-col items-center justify-center transition-all duration-500 snap-center
-                          ${isActive ? "opacity-100 z-10" : ""}
-                          ${isPast ? "opacity-40 grayscale" : ""}
-                          ${!isActive && !isPast ? "opacity-60" : ""}
-                        `}
-                      >
-                        <NoteCircle
-                          note={noteObj.note}
-                          duration={noteObj.duration}
-                          isActive={isActive}
-                          isPast={isPast}
-                          noteProgress={isActive ? noteProgress : 0}
-                          showStaffLines={true}
-                        />
-
-                        <div
-                          className={`mt-2 sm:mt-3 font-serif text-xs sm:text-lg italic transition-all ${
-                            isActive ? "text-indigo-300" : "text-slate-500"
-                          }`}
-                        >
-                          {noteObj.lyric || "-"}
-                        </div>
-                      </div>
-                    );
-                  })}
+              {/* Rhythm mode count-in before the first note */}
+              {countIn !== null && (
+                <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-slate-900/60 pointer-events-none">
+                  <span className="text-6xl sm:text-8xl font-bold text-indigo-300 animate-in zoom-in">
+                    {countIn}
+                  </span>
+                  <span className="text-xs uppercase tracking-wider text-slate-400">
+                    Get ready
+                  </span>
                 </div>
+              )}
+
+              {/* Staff or note highway */}
+              <div className="absolute top-2 right-2 z-30 flex bg-slate-800/90 rounded-full p-1 border border-slate-700">
+                {(Object.keys(TIMELINE_VIEW_LABELS) as TimelineView[]).map(
+                  (view) => (
+                    <button
+                      key={view}
+                      onClick={() => setTimelineView(view)}
+                      className={`text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded-full transition-all ${
+                        timelineView === view
+                          ? "bg-indigo-600 text-white"
+                          : "text-slate-500 hover:text-slate-300"
+                      }`}
+                    >
+                      {TIMELINE_VIEW_LABELS[view]}
+                    </button>
+                  )
+                )}
               </div>
 
-              {/* Left Hand (Bass) - Bottom Row - Only display if any bass notes exist */}
-              {song.notes.some((n) => n.bassNote) && (
-                <div className="w-full border-t border-slate-700/30">
-                  <div className="text-center py-1">
-                    <span className="text-[9px] sm:text-[10px] text-slate-500 uppercase font-bold tracking-wider">
-                      Left Hand (Bass)
-                    </span>
-                  </div>
-                  <div className="w-full overflow-x-auto scrollbar-hide touch-scroll flex items-center px-[50%] py-2 sm:py-3 gap-4 sm:gap-8">
+              {timelineView === "highway" ? (
+                <NoteHighway
+                  song={song}
+                  timing={songTiming}
+                  strings={tunedStrings}
+                  activeIndex={highlightedIndex}
+                  noteProgress={noteProgress}
+                  showBass={hasBass}
+                  dimBass={handMode === "melody"}
+                  grades={practiceMode === "rhythm" ? rhythmGrades : undefined}
+                  getSongTimeMs={
+                    practiceMode === "rhythm" && isListening
+                      ? getRhythmTimeMs
+                      : undefined
+                  }
+                />
+              ) : (
+                <>
+                <div className="absolute left-1/2 top-0 bottom-0 w-px bg-indigo-500/20 z-0"></div>
+                {/* Right Hand (Melody) - Top Row */}
+                <div className="relative w-full overflow-x-auto scrollbar-hide touch-scroll">
+                  <div className="relative z-10 flex items-center px-[50%] py-3 sm:py-4 gap-4 sm:gap-8 snap-x snap-mandatory">
+                    {/* Key signature of the lyre's tuning, at the start of the staff */}
+                    {keySignature.length > 0 && (
+                      <div className="shrink-0 flex flex-col items-center justify-center">
+                        <KeySignature sharps={keySignature} />
+                        <div className="mt-2 sm:mt-3 text-xs sm:text-lg invisible">
+                          -
+                        </div>
+                      </div>
+                    )}
                     {song.notes.map((noteObj, idx) => {
-                      const isActive = idx === currentIndex;
+                      const isActive = idx === highlightedIndex;
+                      const isPast = idx < highlightedIndex;
 
                       return (
                         <div
-                          key={`bass-${idx}`}
+                          key={idx}
+                          id={`note-${idx}`}
                           className={`
-                             relative shrink-0 flex flex-col items-center justify-center transition-all duration-500
-                             ${
-                               isActive
-                                 ? "opacity-100 scale-100"
-                                 : "opacity-40 scale-75"
-                             }
-                           `}
+                            relative shrink-0 flex flex-col items-center justify-center transition-all duration-500 snap-center
+                            ${isActive ? "opacity-100 z-10" : ""}
+                            ${isPast ? "opacity-40 grayscale" : ""}
+                            ${!isActive && !isPast ? "opacity-60" : ""}
+                          `}
                         >
-                          {noteObj.bassNote ? (
+                          <NoteCircle
+                            note={noteObj.note}
+                            duration={noteObj.duration}
+                            isActive={isActive}
+                            isPast={isPast}
+                            noteProgress={isActive ? noteProgress : 0}
+                            showStaffLines={true}
+                            keySignature={keySignature}
+                          />
+
+                          <div
+                            className={`mt-2 sm:mt-3 font-serif text-xs sm:text-lg italic transition-all ${
+                              isActive ? "text-indigo-300" : "text-slate-500"
+                            }`}
+                          >
+                            {noteObj.lyric || "-"}
+                          </div>
+
+                          {practiceMode === "rhythm" && (
                             <div
-                              className={`
-                               w-12 h-12 sm:w-16 sm:h-16 rounded-full flex items-center justify-center border-2 shadow-md relative overflow-hidden
-                               ${
-                                 isActive
-                                   ? "bg-purple-700/60 border-purple-400"
-                                   : "bg-slate-800/80 border-slate-700"
-                               }
-                             `}
+                              className={`text-[10px] sm:text-xs font-bold uppercase h-4 ${
+                                rhythmGrades[idx]
+                                  ? RHYTHM_GRADE_COLORS[rhythmGrades[idx]]
+                                  : ""
+                              }`}
                             >
-                              <span className="text-sm sm:text-lg font-bold text-slate-200">
-                                {noteObj.bassNote}
-                              </span>
+                              {rhythmGrades[idx] &&
+                                RHYTHM_GRADE_LABELS[rhythmGrades[idx]]}
                             </div>
-                          ) : (
-                            <div className="w-12 h-12 sm:w-16 sm:h-16" />
                           )}
                         </div>
                       );
                     })}
                   </div>
                 </div>
+
+                {/* Left Hand (Bass) - Bottom Row - Only display if any bass notes exist */}
+                {hasBass && (
+                  <div
+                    className={`w-full border-t border-slate-700/30 transition-opacity ${
+                      handMode === "melody" ? "opacity-40" : ""
+                    }`}
+                  >
+                    <div className="text-center py-1">
+                      <span className="text-[9px] sm:text-[10px] text-slate-500 uppercase font-bold tracking-wider">
+                        Left Hand (Bass)
+                        {handMode === "melody" && " - not checked"}
+                      </span>
+                    </div>
+                    <div className="w-full overflow-x-auto scrollbar-hide touch-scroll flex items-center px-[50%] py-2 sm:py-3 gap-4 sm:gap-8">
+                      {song.notes.map((noteObj, idx) => {
+                        const isActive = idx === highlightedIndex;
+                        const isBassHeard =
+                          isActive &&
+                          playbackIndex === null &&
+                          !!noteObj.bassNote &&
+                          heardNoteList.includes(normalizeNoteName(noteObj.bassNote));
+
+                        return (
+                          <div
+                            key={`bass-${idx}`}
+                            className={`
+                               relative shrink-0 flex flex-col items-center justify-center transition-all duration-500
+                               ${
+                                 isActive
+                                   ? "opacity-100 scale-100"
+                                   : "opacity-40 scale-75"
+                               }
+                             `}
+                          >
+                            {noteObj.bassNote ? (
+                              <div
+                                className={`
+                                 w-12 h-12 sm:w-16 sm:h-16 rounded-full flex items-center justify-center border-2 shadow-md relative overflow-hidden
+                                 ${
+                                   isBassHeard
+                                     ? "bg-green-700/60 border-green-400"
+                                     : isActive
+                                     ? "bg-purple-700/60 border-purple-400"
+                                     : "bg-slate-800/80 border-slate-700"
+                                 }
+                               `}
+                              >
+                                <span className="text-sm sm:text-lg font-bold text-slate-200">
+                                  {noteObj.bassNote}
+                                </span>
+                              </div>
+                            ) : (
+                              <div className="w-12 h-12 sm:w-16 sm:h-16" />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                </>
               )}
             </div>
 
@@ -660,6 +1495,49 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
                   </div>
 
                   <div className="space-y-6 pt-2">
+                    {/* Input Device */}
+                    <div>
+                      <div className="flex justify-between text-sm mb-2">
+                        <label
+                          htmlFor="inputDevice"
+                          className="text-slate-400"
+                        >
+                          Microphone
+                        </label>
+                      </div>
+                      <select
+                        id="inputDevice"
+                        value={inputDeviceId ?? ""}
+                        onChange={(e) =>
+                          handleSelectInputDevice(e.target.value || null)
+                        }
+                        className="w-full bg-slate-700 text-slate-200 text-sm rounded-lg px-3 py-2 border border-slate-600 focus:outline-none focus:border-indigo-500"
+                      >
+                        <option value="">System default</option>
+                        {inputDevices
+                          .filter((device) => device.deviceId !== "default")
+                          .map((device, index) => (
+                            <option key={device.deviceId} value={device.deviceId}>
+                              {device.label || `Microphone ${index + 1}`}
+                            </option>
+                          ))}
+                        {inputDeviceId &&
+                          !inputDevices.some(
+                            (device) => device.deviceId === inputDeviceId
+                          ) && (
+                            <option value={inputDeviceId}>
+                              Unavailable microphone
+                            </option>
+                          )}
+                      </select>
+                    </div>
+
+                    <AudioProfiles
+                      store={profiles}
+                      deviceId={deviceId}
+                      onChange={setProfiles}
+                    />
+
                     {/* Live Meters */}
                     {isListening && (
                       <div className="grid grid-cols-2 gap-4 mb-6 bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
@@ -709,7 +1587,10 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
 
                         <div>
                           <div className="flex justify-between text-xs text-slate-400 mb-1">
-                            <span>Clarity (NSDF)</span>
+                            <span>
+                              Clarity (
+                              {PITCH_DETECTORS[config.pitchDetector].label})
+                            </span>
                             <span
                               className={
                                 currentClarity >= config.correlationThreshold
@@ -824,6 +1705,87 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
                           </div>
                         </div>
 
+                        {/* Step 3: Every String */}
+                        <div className="mb-4">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-xs text-slate-400">
+                              <span className="font-bold text-slate-300">
+                                Step 3:
+                              </span>{" "}
+                              Calibrate Each String
+                            </span>
+                            {calibratedStringCount > 0 && (
+                              <span className="text-xs text-green-400">
+                                ✓ {calibratedStringCount}/{tunedStrings.length}{" "}
+                                strings
+                              </span>
+                            )}
+                          </div>
+                          {calibrationPhase === "strings" ? (
+                            <div className="space-y-2">
+                              <div className="flex items-center justify-between text-sm">
+                                <span className="text-slate-300">
+                                  Pluck{" "}
+                                  <span className="font-bold text-indigo-300">
+                                    {tunedStrings[calibrationStringIndex]}
+                                  </span>{" "}
+                                  and let it ring
+                                </span>
+                                <span className="text-xs text-slate-500">
+                                  {calibrationStringIndex + 1} /{" "}
+                                  {tunedStrings.length}
+                                </span>
+                              </div>
+                              <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-indigo-500 transition-all duration-100"
+                                  style={{
+                                    width: `${calibrationProgress * 100}%`,
+                                  }}
+                                />
+                              </div>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() =>
+                                    selectCalibrationString(
+                                      calibrationStringIndex + 1
+                                    )
+                                  }
+                                  className="flex-1 py-2 rounded-lg font-bold bg-slate-700 hover:bg-slate-600 text-white text-sm"
+                                >
+                                  Skip String
+                                </button>
+                                <button
+                                  onClick={finishStringCalibration}
+                                  className="flex-1 py-2 rounded-lg font-bold bg-red-600 hover:bg-red-500 text-white text-sm"
+                                >
+                                  Stop
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="flex gap-2">
+                              <button
+                                onClick={startStringCalibration}
+                                disabled={isCalibrating}
+                                className="flex-1 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm"
+                              >
+                                Start (Pluck Every String)
+                              </button>
+                              {calibratedStringCount > 0 && (
+                                <button
+                                  onClick={clearStringCalibration}
+                                  disabled={isCalibrating}
+                                  className="py-2 px-3 rounded-lg font-bold bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm"
+                                  title="Forget the per-string measurements"
+                                >
+                                  Reset
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+
                         {/* Gain Controls */}
                         <div>
                           <div className="flex justify-between text-xs text-slate-400 mb-2">
@@ -863,6 +1825,136 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
                     </div>
 
                     <div className="space-y-6">
+                      {/* Pitch Detection Algorithm */}
+                      <div>
+                        <div className="flex justify-between text-sm mb-2">
+                          <label
+                            htmlFor="pitchDetector"
+                            className="text-slate-400"
+                          >
+                            Pitch Detector
+                          </label>
+                        </div>
+                        <select
+                          id="pitchDetector"
+                          value={config.pitchDetector}
+                          onChange={(e) =>
+                            setConfig({
+                              ...config,
+                              pitchDetector: e.target.value as PitchDetectorId,
+                            })
+                          }
+                          className="w-full bg-slate-700 text-slate-200 text-sm rounded-lg px-3 py-2 border border-slate-600 focus:outline-none focus:border-indigo-500"
+                          title="Choose the pitch detection algorithm"
+                        >
+                          {(Object.keys(PITCH_DETECTORS) as PitchDetectorId[]).map(
+                            (id) => (
+                              <option key={id} value={id}>
+                                {PITCH_DETECTORS[id].label}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        <p className="text-[10px] text-slate-600 mt-1">
+                          {PITCH_DETECTORS[config.pitchDetector].description}
+                        </p>
+                      </div>
+
+                      {/* Concert Pitch Reference */}
+                      <div>
+                        <div className="flex justify-between text-sm mb-2">
+                          <label
+                            htmlFor="referencePitch"
+                            className="text-slate-400"
+                          >
+                            Concert Pitch (A4)
+                          </label>
+                          <span className="font-mono text-indigo-400">
+                            {config.referencePitch} Hz
+                          </span>
+                        </div>
+                        <div className="flex gap-2">
+                          {REFERENCE_PITCH_PRESETS.map((preset) => (
+                            <button
+                              key={preset}
+                              onClick={() =>
+                                setConfig({ ...config, referencePitch: preset })
+                              }
+                              className={`flex-1 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                                config.referencePitch === preset
+                                  ? "bg-indigo-600 text-white"
+                                  : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                              }`}
+                            >
+                              {preset}
+                            </button>
+                          ))}
+                          <input
+                            id="referencePitch"
+                            type="number"
+                            min={MIN_REFERENCE_PITCH}
+                            max={MAX_REFERENCE_PITCH}
+                            step="0.5"
+                            // Remount on change so presets update the field
+                            key={config.referencePitch}
+                            defaultValue={config.referencePitch}
+                            onBlur={(e) => {
+                              const value = parseFloat(e.target.value);
+                              const referencePitch = Number.isFinite(value)
+                                ? clampReferencePitch(value)
+                                : config.referencePitch;
+                              e.target.value = String(referencePitch);
+                              setConfig({ ...config, referencePitch });
+                            }}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") e.currentTarget.blur();
+                            }}
+                            className="w-20 bg-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1.5 border border-slate-600 focus:outline-none focus:border-indigo-500"
+                            title="Custom reference pitch in Hz"
+                          />
+                        </div>
+                        <p className="text-[10px] text-slate-600 mt-1">
+                          Match the tuning of your lyre. Many players tune
+                          to 432 Hz.
+                        </p>
+                      </div>
+
+                      {/* Tuning Drift Warning */}
+                      <div>
+                        <div className="flex justify-between text-sm mb-2">
+                          <span className="text-slate-400">
+                            Drift Warning
+                          </span>
+                          <span className="font-mono text-indigo-400">
+                            {config.driftWarningCents} cents
+                          </span>
+                        </div>
+                        <label htmlFor="driftWarningCents" className="sr-only">
+                          Drift Warning
+                        </label>
+                        <input
+                          id="driftWarningCents"
+                          type="range"
+                          min="5"
+                          max="45"
+                          step="1"
+                          value={config.driftWarningCents}
+                          onChange={(e) =>
+                            setConfig({
+                              ...config,
+                              driftWarningCents: parseInt(e.target.value, 10),
+                            })
+                          }
+                          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                          aria-label="Drift Warning"
+                          title="Warn when a string drifts this many cents from its note"
+                        />
+                        <p className="text-[10px] text-slate-500 mt-1">
+                          Notes more than 50 cents off are no longer
+                          recognized.
+                        </p>
+                      </div>
+
                       {/* RMS Threshold */}
                       <div>
                         <div className="flex justify-between text-sm mb-2">
@@ -944,13 +2036,18 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
                     </div>
                     <div
                       className={`text-2xl sm:text-3xl font-mono font-bold ${
-                        detectedNote === song.notes[currentIndex]?.note
+                        isCurrentStepHeard
                           ? "text-green-400 scale-110"
                           : "text-slate-200"
                       } transition-all`}
                     >
                       {detectedNote}
                     </div>
+                    {heardNoteList.length > 1 && (
+                      <div className="text-[10px] text-slate-400 font-mono">
+                        {heardNoteList.join(" + ")}
+                      </div>
+                    )}
                   </div>
 
                   <div className="hidden sm:block h-10 w-px bg-slate-700 mx-2"></div>
@@ -963,6 +2060,144 @@ export const TutorInterface: React.FC<TutorInterfaceProps> = ({
                   </div>
                 </div>
 
+                {/* Practice Mode - wait for each note, or keep time */}
+                <div className="flex flex-col items-center gap-2">
+                  <div className="flex bg-slate-800 rounded-full p-1 border border-slate-700">
+                    {(Object.keys(PRACTICE_MODE_LABELS) as PracticeMode[]).map(
+                      (mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => handleSelectPracticeMode(mode)}
+                          className={`text-xs uppercase font-bold tracking-wider px-3 py-1 rounded-full transition-all ${
+                            practiceMode === mode
+                              ? "bg-indigo-600 text-white"
+                              : "text-slate-500 hover:text-slate-300"
+                          }`}
+                        >
+                          {PRACTICE_MODE_LABELS[mode]}
+                        </button>
+                      )
+                    )}
+                  </div>
+                  {practiceMode === "rhythm" && (
+                    <div className="flex items-center gap-3 w-full max-w-xs">
+                      <label
+                        htmlFor="tempoPercent"
+                        className="text-xs text-slate-400 whitespace-nowrap"
+                      >
+                        Tempo
+                      </label>
+                      <input
+                        id="tempoPercent"
+                        type="range"
+                        min={MIN_TEMPO_PERCENT}
+                        max={MAX_TEMPO_PERCENT}
+                        step="5"
+                        value={tempoPercent}
+                        disabled={isListening}
+                        onChange={(e) =>
+                          setTempoPercent(parseInt(e.target.value, 10))
+                        }
+                        className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:opacity-50"
+                        title="Practice slower or faster than the song's tempo"
+                      />
+                      <span className="font-mono text-xs text-indigo-400 whitespace-nowrap">
+                        {tempoPercent}% ·{" "}
+                        {Math.round(songTiming.notes[0].bpm * tempoScale)} BPM
+                      </span>
+                    </div>
+                  )}
+                  {practiceMode === "rhythm" && (
+                    <div className="flex items-center gap-2 text-xs">
+                      <button
+                        onClick={() => setIsMetronomeOn(!isMetronomeOn)}
+                        disabled={isListening}
+                        className={`flex items-center gap-1.5 px-3 py-1 rounded-full font-bold uppercase tracking-wider transition-all disabled:opacity-50 ${
+                          isMetronomeOn
+                            ? "bg-indigo-600 text-white"
+                            : "bg-slate-800 text-slate-500 hover:text-slate-300"
+                        }`}
+                        title="Click every beat while you play"
+                      >
+                        <Timer size={14} />
+                        Metronome
+                      </button>
+                      <span className="text-slate-500">Count-in</span>
+                      {COUNT_IN_BAR_OPTIONS.map((bars) => (
+                        <button
+                          key={bars}
+                          onClick={() => setCountInBars(bars)}
+                          disabled={isListening}
+                          className={`px-2 py-1 rounded-full font-bold transition-all disabled:opacity-50 ${
+                            countInBars === bars
+                              ? "bg-indigo-600 text-white"
+                              : "bg-slate-800 text-slate-500 hover:text-slate-300"
+                          }`}
+                        >
+                          {bars} {bars === 1 ? "bar" : "bars"}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Hand Selection - practice each hand separately */}
+                {hasBass && (
+                  <div className="flex justify-center">
+                    <div className="flex bg-slate-800 rounded-full p-1 border border-slate-700">
+                      {(Object.keys(HAND_MODE_LABELS) as HandMode[]).map(
+                        (mode) => (
+                          <button
+                            key={mode}
+                            onClick={() => setHandMode(mode)}
+                            className={`text-xs uppercase font-bold tracking-wider px-3 py-1 rounded-full transition-all ${
+                              handMode === mode
+                                ? "bg-purple-600 text-white"
+                                : "text-slate-500 hover:text-slate-300"
+                            }`}
+                          >
+                            {HAND_MODE_LABELS[mode]}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Reference Playback - hear how the song should sound */}
+                {!(isListening && practiceMode === "rhythm") && (
+                  <div className="flex justify-center gap-2">
+                    {playbackIndex !== null ? (
+                      <button
+                        onClick={stopPlayback}
+                        className="flex items-center gap-2 text-xs uppercase font-bold tracking-wider px-4 py-2 rounded-full bg-indigo-600 text-white transition-all"
+                      >
+                        <Square size={14} />
+                        <span>Stop Playback</span>
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => playReference("phrase")}
+                          className="flex items-center gap-2 text-xs uppercase font-bold tracking-wider px-4 py-2 rounded-full bg-slate-800 text-slate-400 hover:text-slate-200 transition-all"
+                          title="Play the phrase of the current note"
+                        >
+                          <Volume2 size={14} />
+                          <span>Listen: Phrase</span>
+                        </button>
+                        <button
+                          onClick={() => playReference("song")}
+                          className="flex items-center gap-2 text-xs uppercase font-bold tracking-wider px-4 py-2 rounded-full bg-slate-800 text-slate-400 hover:text-slate-200 transition-all"
+                          title="Play the whole song"
+                        >
+                          <Volume2 size={14} />
+                          <span>Listen: Song</span>
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+
                 {/* Simple Settings Toggle */}
                 <div className="flex justify-center">
                   <button
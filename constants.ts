@@ -1,33 +1,12 @@
-import { Song } from "./types";
+import { getStaffStep, parsePitch, pitchToFrequency } from "./services/pitch";
+import { InstrumentProfile, Song, Tuning } from "./types";
 
-// Standard frequencies for notes (A4 = 440Hz)
-// Range for 19-string diatonic lyre harp: F3 to C6
-// Strings: F3, G3, A3, B3, C4, D4, E4, F4, G4, A4, B4, C5, D5, E5, F5, G5, A5, B5, C6
-export const NOTE_FREQUENCIES: Record<string, number> = {
-  // Octave 3 (F3-B3)
-  F3: 174.61,
-  G3: 196.0,
-  A3: 220.0,
-  B3: 246.94,
-  // Octave 4
-  C4: 261.63,
-  D4: 293.66,
-  E4: 329.63,
-  F4: 349.23,
-  G4: 392.0,
-  A4: 440.0,
-  B4: 493.88,
-  // Octave 5
-  C5: 523.25,
-  D5: 587.33,
-  E5: 659.25,
-  F5: 698.46,
-  G5: 783.99,
-  A5: 880.0,
-  B5: 987.77,
-  // Octave 6 (C6 only)
-  C6: 1046.5,
-};
+// Concert pitch reference (frequency of A4)
+// Many lyre players tune to 432 Hz, orchestras often to 442 Hz
+export const DEFAULT_REFERENCE_PITCH = 440;
+export const REFERENCE_PITCH_PRESETS = [432, 440, 442] as const;
+export const MIN_REFERENCE_PITCH = 415; // A semitone flat (baroque pitch)
+export const MAX_REFERENCE_PITCH = 466; // A semitone sharp
 
 // Valid notes for 19-string diatonic lyre harp (F3 to C6)
 export const LYRE_NOTES = [
@@ -52,13 +31,85 @@ export const LYRE_NOTES = [
   "C6",
 ] as const;
 
+const DIATONIC_LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+
+/**
+ * Natural notes from lowest to highest inclusive, e.g. ("G3", "C4") -> G3 A3 B3 C4
+ */
+const diatonicRange = (lowest: string, highest: string): string[] => {
+  const toStep = (note: string) => getStaffStep(parsePitch(note));
+  const notes: string[] = [];
+  for (let step = toStep(lowest); step <= toStep(highest); step++) {
+    notes.push(`${DIATONIC_LETTERS[step % 7]}${Math.floor(step / 7)}`);
+  }
+  return notes;
+};
+
+const createDiatonicProfile = (
+  stringCount: number,
+  lowestNote: string,
+  highestNote: string
+): InstrumentProfile => ({
+  id: String(stringCount),
+  name: `${stringCount}-string lyre harp`,
+  strings: diatonicRange(lowestNote, highestNote),
+  lowestNote,
+  highestNote,
+  defaultTuning: "C",
+});
+
+// Retuning presets for diatonic lyres
+export const TUNING_PRESETS: Tuning[] = [
+  { id: "C", name: "C major", sharps: [] },
+  { id: "G", name: "G major", sharps: ["F"] },
+  { id: "D", name: "D major", sharps: ["F", "C"] },
+];
+
+// Common diatonic lyre harps, all tuned to C major by default
+export const INSTRUMENT_PROFILES: InstrumentProfile[] = [
+  createDiatonicProfile(7, "C4", "B4"),
+  createDiatonicProfile(10, "C4", "E5"),
+  createDiatonicProfile(16, "G3", "A5"),
+  createDiatonicProfile(19, "F3", "C6"),
+  createDiatonicProfile(21, "D3", "C6"),
+  createDiatonicProfile(24, "C3", "E6"),
+];
+
+export const DEFAULT_INSTRUMENT_ID = "19";
+
+/**
+ * Equal-tempered frequencies for the given strings, relative to A4
+ * Defaults to the 19-string diatonic lyre harp: F3 to C6
+ * @throws InvalidPitchError for a string that is not a note name
+ */
+export const buildNoteFrequencies = (
+  referencePitch: number = DEFAULT_REFERENCE_PITCH,
+  notes: readonly string[] = LYRE_NOTES
+): Record<string, number> => {
+  const frequencies: Record<string, number> = {};
+  for (const note of notes) {
+    const frequency = pitchToFrequency(parsePitch(note), referencePitch);
+    frequencies[note] = Math.round(frequency * 100) / 100;
+  }
+  return frequencies;
+};
+
+// Standard frequencies for notes (A4 = 440Hz)
+// Covers every string of every profile: C3 to E6
+export const NOTE_FREQUENCIES: Record<string, number> = buildNoteFrequencies(
+  DEFAULT_REFERENCE_PITCH,
+  INSTRUMENT_PROFILES.flatMap((profile) => profile.strings)
+);
+
 // Common songs to preload
-// All songs use diatonic notes only (no sharps/flats) for 19-string diatonic lyre harp
+// Songs use diatonic notes for a 19-string lyre in C, except where noted
 export const PRESET_SONGS: Song[] = [
   {
     title: "Tonleiter",
     artist: "Traditional",
     difficulty: "Easy",
+    bpm: 80,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       { note: "F3", lyric: "" },
       { note: "G3", lyric: "" },
@@ -85,6 +136,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Twinkle Twinkle Little Star",
     artist: "Traditional",
     difficulty: "Easy",
+    bpm: 100,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       // Section A
       { note: "C4", bassNote: "F3", lyric: "Twin", duration: "1/4" },
@@ -137,6 +190,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Ode to Joy",
     artist: "Beethoven",
     difficulty: "Easy",
+    bpm: 108,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       // Part 1
       { note: "E4", bassNote: "G3", lyric: "Joy" },
@@ -176,6 +231,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Amazing Grace",
     artist: "John Newton",
     difficulty: "Easy",
+    bpm: 80,
+    timeSignature: { beats: 3, beatUnit: 4 },
+    anacrusis: 1,
     notes: [
       { note: "G3", bassNote: "G3", lyric: "A", duration: "1/4" },
       { note: "C4", bassNote: "F3", lyric: "ma", duration: "1/2" },
@@ -213,6 +271,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Canon in C",
     artist: "Pachelbel (adapted)",
     difficulty: "Medium",
+    bpm: 72,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       // Bass line intro
       { note: "E4", lyric: "Bass" },
@@ -252,6 +312,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Greensleeves",
     artist: "Traditional English",
     difficulty: "Medium",
+    bpm: 96,
+    timeSignature: { beats: 3, beatUnit: 4 },
+    anacrusis: 1,
     notes: [
       // Verse
       { note: "A3", bassNote: "F3", lyric: "A" },
@@ -305,6 +368,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Scarborough Fair",
     artist: "Traditional English",
     difficulty: "Easy",
+    bpm: 90,
+    timeSignature: { beats: 3, beatUnit: 4 },
     notes: [
       { note: "A3", bassNote: "F3", lyric: "Are" },
       { note: "A3", lyric: "you" },
@@ -348,6 +413,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Für Elise (simplified)",
     artist: "Beethoven",
     difficulty: "Medium",
+    bpm: 132,
+    timeSignature: { beats: 3, beatUnit: 8 },
+    anacrusis: 2,
     notes: [
       // Main Theme - fast sixteenth-like feel, using eighth notes
       { note: "E5", bassNote: "G3", lyric: "-", duration: "1/8" },
@@ -394,6 +462,8 @@ export const PRESET_SONGS: Song[] = [
     title: "River Flows in You",
     artist: "Yiruma (adapted)",
     difficulty: "Medium",
+    bpm: 70,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       { note: "A4", bassNote: "F3", lyric: "-" },
       { note: "B4", lyric: "-" },
@@ -440,6 +510,8 @@ export const PRESET_SONGS: Song[] = [
     title: "My Heart Will Go On",
     artist: "Celine Dion (adapted)",
     difficulty: "Medium",
+    bpm: 96,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       // Verse
       { note: "E4", bassNote: "G3", lyric: "Ev" },
@@ -486,6 +558,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Hallelujah",
     artist: "Leonard Cohen",
     difficulty: "Medium",
+    bpm: 84,
+    timeSignature: { beats: 3, beatUnit: 4 },
+    anacrusis: 2,
     notes: [
       // Verse
       { note: "E4", bassNote: "G3", lyric: "I've" },
@@ -528,6 +603,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Yesterday",
     artist: "The Beatles",
     difficulty: "Easy",
+    bpm: 96,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       { note: "G4", bassNote: "G3", lyric: "Yes" },
       { note: "F4", lyric: "ter" },
@@ -564,6 +641,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Moon River",
     artist: "Henry Mancini",
     difficulty: "Easy",
+    bpm: 90,
+    timeSignature: { beats: 3, beatUnit: 4 },
     notes: [
       // Part 1
       { note: "C4", bassNote: "F3", lyric: "Moon" },
@@ -608,6 +687,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Can't Help Falling in Love",
     artist: "Elvis Presley (adapted)",
     difficulty: "Easy",
+    bpm: 72,
+    timeSignature: { beats: 3, beatUnit: 4 },
     notes: [
       // Verse
       { note: "G4", bassNote: "G3", lyric: "Wise" },
@@ -656,6 +737,8 @@ export const PRESET_SONGS: Song[] = [
     title: "Over the Rainbow",
     artist: "Judy Garland",
     difficulty: "Medium",
+    bpm: 76,
+    timeSignature: { beats: 4, beatUnit: 4 },
     notes: [
       { note: "C4", bassNote: "F3", lyric: "Some" },
       { note: "C5", lyric: "where" },
@@ -686,6 +769,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Danny Boy",
     artist: "Traditional Irish",
     difficulty: "Easy",
+    bpm: 72,
+    timeSignature: { beats: 4, beatUnit: 4 },
+    anacrusis: 3,
     notes: [
       // Verse
       { note: "C4", bassNote: "F3", lyric: "Oh" },
@@ -737,6 +823,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Silent Night",
     artist: "Franz Gruber",
     difficulty: "Easy",
+    bpm: 80,
+    timeSignature: { beats: 3, beatUnit: 4 },
+    tempoChanges: [{ index: 26, bpm: 60 }], // Slower for the last line
     notes: [
       // Verse
       { note: "G4", bassNote: "G3", lyric: "Si" },
@@ -778,6 +867,9 @@ export const PRESET_SONGS: Song[] = [
     title: "Auld Lang Syne",
     artist: "Traditional Scottish",
     difficulty: "Easy",
+    bpm: 88,
+    timeSignature: { beats: 4, beatUnit: 4 },
+    anacrusis: 1,
     notes: [
       // Verse
       { note: "G3", bassNote: "G3", lyric: "Should" },
@@ -833,4 +925,46 @@ export const PRESET_SONGS: Song[] = [
       { note: "C4", lyric: "syne" },
     ],
   },
+  {
+    // Needs F#: tune the lyre to G major or raise the F levers
+    title: "Minuet in G",
+    artist: "Christian Petzold",
+    difficulty: "Medium",
+    bpm: 120,
+    timeSignature: { beats: 3, beatUnit: 4 },
+    notes: [
+      { note: "D5", bassNote: "G3", duration: "1/4" },
+      { note: "G4", duration: "1/8" },
+      { note: "A4", duration: "1/8" },
+      { note: "B4", duration: "1/8" },
+      { note: "C5", duration: "1/8" },
+      { note: "D5", bassNote: "B3", duration: "1/4" },
+      { note: "G4", duration: "1/4" },
+      { note: "G4", duration: "1/4" },
+      { note: "E5", bassNote: "C4", duration: "1/4" },
+      { note: "C5", duration: "1/8" },
+      { note: "D5", duration: "1/8" },
+      { note: "E5", duration: "1/8" },
+      { note: "F#5", duration: "1/8" },
+      { note: "G5", bassNote: "B3", duration: "1/4" },
+      { note: "G4", duration: "1/4" },
+      { note: "G4", duration: "1/4" },
+      { note: "C5", bassNote: "A3", duration: "1/4" },
+      { note: "D5", duration: "1/8" },
+      { note: "C5", duration: "1/8" },
+      { note: "B4", duration: "1/8" },
+      { note: "A4", duration: "1/8" },
+      { note: "B4", bassNote: "G3", duration: "1/4" },
+      { note: "C5", duration: "1/8" },
+      { note: "B4", duration: "1/8" },
+      { note: "A4", duration: "1/8" },
+      { note: "G4", duration: "1/8" },
+      { note: "F#4", bassNote: "D4", duration: "1/4" },
+      { note: "G4", duration: "1/8" },
+      { note: "A4", duration: "1/8" },
+      { note: "B4", duration: "1/8" },
+      { note: "G4", duration: "1/8" },
+      { note: "A4", bassNote: "D4", duration: "1/2" },
+    ],
+  },
 ];
@@ -0,0 +1,453 @@
+// Offline accuracy benchmark for the pitch detection pipeline.
+//
+// Usage:
+//   npm run benchmark -- [options] <file.wav | directory> ...
+//   npm run benchmark -- --synth
+//
+// Each WAV file is labelled with the string it contains, taken from the start
+// of the file name (e.g. "C4.wav", "C4_take2.wav") or its parent directory
+// ("recordings/C4/close-mic.wav"). Every recording should start shortly
+// before a single pluck of that string.
+
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_INSTRUMENT_ID,
+  DEFAULT_REFERENCE_PITCH,
+  INSTRUMENT_PROFILES,
+  NOTE_FREQUENCIES,
+  buildNoteFrequencies,
+} from "../constants";
+import {
+  ANALYSIS_FFT_SIZE,
+  ANALYSIS_HOP_SIZE,
+  FrameAnalyzer,
+} from "../services/frameAnalyzer";
+import { createRandom, renderPluck } from "../services/karplusStrong";
+import { PITCH_DETECTORS, PitchDetectorId } from "../services/pitchDetectors";
+import {
+  INPUT_GAIN,
+  PitchTracker,
+  PitchTrackerSettings,
+  getFrequencyRange,
+} from "../services/pitchTracker";
+import { InstrumentProfile } from "../types";
+import { decodeWav } from "./wav";
+
+const SYNTH_SAMPLE_RATE = 48000;
+const ACTIVE_LEVEL_RATIO = 0.1; // Frames within 20 dB of the clip's loudest count as sounding
+const ONSET_LEVEL_RATIO = 0.2; // First sample above 20% of the peak marks the pluck
+
+interface Clip {
+  name: string;
+  label: string;
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+interface StringStats {
+  clips: number;
+  activeFrames: number;
+  truePositives: number;
+  detectedActiveFrames: number;
+  octaveErrors: number;
+  predictedFrames: number; // Frames where this string was reported, for precision
+  correctPredictions: number; // ...of which the clip really was this string
+  latencies: number[];
+  missedClips: number;
+}
+
+const HELP = `Offline pitch detection benchmark
+
+Usage: npm run benchmark -- [options] <file.wav | directory> ...
+
+Options:
+  --synth                Add Karplus-Strong plucks for every lyre string
+  --takes <n>            Synthesized takes per string (default 3)
+  --noise <level>        Background noise level for synth clips (default 0.002)
+  --detune <cents>       Max random detuning of synth clips (default 10)
+  --detector <id>        ${Object.keys(PITCH_DETECTORS).join(" | ")} (default nsdf)
+  --reference <hz>       Concert pitch A4 of the lyre (default ${DEFAULT_REFERENCE_PITCH})
+  --instrument <strings> ${INSTRUMENT_PROFILES.map((p) => p.id).join(" | ")} (default ${DEFAULT_INSTRUMENT_ID})
+  --rms <value>          rmsThreshold
+  --clarity <value>      correlationThreshold
+  --flatness <value>     spectralFlatnessThreshold
+  --cents <value>        centsTolerance
+  --history <n>          historySize
+  --consistency <n>      requiredConsistency
+  -h, --help             Show this help
+`;
+
+/**
+ * Note name at the start of a file or directory name, e.g. "C4_take1" -> "C4"
+ */
+const parseLabel = (name: string): string | null => {
+  const match = /^([A-Ga-g])([#b]?)(\d)(?![\d])/.exec(name);
+  return match ? `${match[1].toUpperCase()}${match[2]}${match[3]}` : null;
+};
+
+const collectWavFiles = (path: string): string[] => {
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path)
+      .sort()
+      .flatMap((entry) => collectWavFiles(join(path, entry)));
+  }
+  return extname(path).toLowerCase() === ".wav" ? [path] : [];
+};
+
+const loadClip = (path: string): Clip | null => {
+  const label =
+    parseLabel(basename(path, extname(path))) ??
+    parseLabel(basename(dirname(path)));
+  if (!label) {
+    console.warn(`Skipping ${path}: no note name in file or directory name`);
+    return null;
+  }
+  const { sampleRate, samples } = decodeWav(readFileSync(path));
+  return { name: path, label, sampleRate, samples };
+};
+
+const synthesizeClips = (
+  takes: number,
+  noise: number,
+  detune: number,
+  referencePitch: number,
+  instrument: InstrumentProfile
+): Clip[] => {
+  const { strings } = instrument;
+  const noteFrequencies = buildNoteFrequencies(referencePitch, strings);
+  const clips: Clip[] = [];
+  strings.forEach((note, stringIndex) => {
+    for (let take = 0; take < takes; take++) {
+      const seed = stringIndex * 100 + take + 1;
+      const random = createRandom(seed);
+      const cents = (random() * 2 - 1) * detune;
+      const frequency = noteFrequencies[note] * Math.pow(2, cents / 1200);
+
+      // Bass strings ring longer than treble strings
+      const sustain = 3.5 - (2.5 * stringIndex) / (strings.length - 1);
+      const pluck = renderPluck(frequency, SYNTH_SAMPLE_RATE, {
+        duration: 2,
+        sustain,
+        brightness: 0.4 + random() * 0.4,
+        amplitude: 0.3 + random() * 0.3,
+        seed,
+      });
+
+      // Lead-in of room noise before the pluck
+      const leadIn = Math.round(0.3 * SYNTH_SAMPLE_RATE);
+      const samples = new Float32Array(leadIn + pluck.length);
+      samples.set(pluck, leadIn);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] += (random() * 2 - 1) * noise;
+      }
+
+      clips.push({
+        name: `synth:${note}#${take + 1}`,
+        label: note,
+        sampleRate: SYNTH_SAMPLE_RATE,
+        samples,
+      });
+    }
+  });
+  return clips;
+};
+
+/**
+ * RBJ cookbook biquad, used to mirror the engine's input band-pass
+ */
+const applyBiquad = (
+  samples: Float32Array,
+  type: "highpass" | "lowpass",
+  frequency: number,
+  q: number,
+  sampleRate: number
+): Float32Array => {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * q);
+  const cos = Math.cos(w0);
+  const b1 = type === "lowpass" ? 1 - cos : -(1 + cos);
+  const b0 = type === "lowpass" ? b1 / 2 : -b1 / 2;
+  const a0 = 1 + alpha;
+  const a1 = -2 * cos;
+  const a2 = 1 - alpha;
+
+  const output = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x0 = samples[i];
+    const y0 = (b0 * x0 + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2) / a0;
+    output[i] = y0;
+    x2 = x1;
+    x1 = x0;
+    y2 = y1;
+    y1 = y0;
+  }
+  return output;
+};
+
+const createStats = (): StringStats => ({
+  clips: 0,
+  activeFrames: 0,
+  truePositives: 0,
+  detectedActiveFrames: 0,
+  octaveErrors: 0,
+  predictedFrames: 0,
+  correctPredictions: 0,
+  latencies: [],
+  missedClips: 0,
+});
+
+const isOctaveError = (detected: string, label: string) =>
+  detected !== label &&
+  detected.replace(/\d+$/, "") === label.replace(/\d+$/, "");
+
+/**
+ * Run one clip through the same analysis and tracking as the live engine
+ */
+const evaluateClip = (
+  clip: Clip,
+  detector: PitchDetectorId,
+  settings: Partial<PitchTrackerSettings>,
+  referencePitch: number,
+  instrument: InstrumentProfile,
+  stats: Record<string, StringStats>
+): void => {
+  const { sampleRate } = clip;
+  const range = getFrequencyRange(referencePitch, instrument.strings);
+  let filtered = applyBiquad(clip.samples, "highpass", range.highpassHz, 0.7, sampleRate);
+  filtered = applyBiquad(filtered, "lowpass", range.lowpassHz, 0.7, sampleRate);
+
+  // Simulate a stream that was already running before the clip started
+  const padded = new Float32Array(ANALYSIS_FFT_SIZE + filtered.length);
+  for (let i = 0; i < filtered.length; i++) {
+    padded[ANALYSIS_FFT_SIZE + i] = filtered[i] * INPUT_GAIN;
+  }
+
+  let peak = 0;
+  for (const sample of clip.samples) peak = Math.max(peak, Math.abs(sample));
+  const onsetIndex = clip.samples.findIndex(
+    (sample) => Math.abs(sample) >= peak * ONSET_LEVEL_RATIO
+  );
+  const onsetTime = (ANALYSIS_FFT_SIZE + Math.max(0, onsetIndex)) / sampleRate;
+
+  const analyzer = new FrameAnalyzer({
+    sampleRate,
+    fftSize: ANALYSIS_FFT_SIZE,
+    minFrequency: range.minFrequency,
+    maxFrequency: range.maxFrequency,
+    detector,
+  });
+  const tracker = new PitchTracker(settings);
+  tracker.setReferencePitch(referencePitch);
+  tracker.setStrings(instrument.strings);
+
+  const frames: { time: number; rms: number; note: string }[] = [];
+  for (let end = ANALYSIS_FFT_SIZE; end <= padded.length; end += ANALYSIS_HOP_SIZE) {
+    const time = end / sampleRate;
+    const features = analyzer.analyze(padded.subarray(end - ANALYSIS_FFT_SIZE, end));
+    const result = tracker.process({ time, ...features });
+    frames.push({ time, rms: features.rms, note: result.note });
+  }
+
+  const loudest = Math.max(...frames.map((frame) => frame.rms));
+  const labelStats = (stats[clip.label] ??= createStats());
+  labelStats.clips++;
+
+  let latency: number | null = null;
+  for (const frame of frames) {
+    if (frame.note) {
+      const predicted = (stats[frame.note] ??= createStats());
+      predicted.predictedFrames++;
+      if (frame.note === clip.label) predicted.correctPredictions++;
+    }
+    if (frame.time < onsetTime) continue;
+
+    if (latency === null && frame.note === clip.label) {
+      latency = frame.time - onsetTime;
+    }
+
+    if (frame.rms < loudest * ACTIVE_LEVEL_RATIO) continue;
+    labelStats.activeFrames++;
+    if (!frame.note) continue;
+    labelStats.detectedActiveFrames++;
+    if (frame.note === clip.label) labelStats.truePositives++;
+    if (isOctaveError(frame.note, clip.label)) labelStats.octaveErrors++;
+  }
+
+  if (latency === null) {
+    labelStats.missedClips++;
+  } else {
+    labelStats.latencies.push(latency * 1000);
+  }
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const percent = (numerator: number, denominator: number) =>
+  denominator > 0 ? `${((numerator / denominator) * 100).toFixed(1)}%` : "-";
+
+const printReport = (stats: Record<string, StringStats>) => {
+  const labels = Object.keys(stats)
+    .filter((note) => stats[note].clips > 0 || stats[note].predictedFrames > 0)
+    .sort((a, b) => (NOTE_FREQUENCIES[a] ?? 0) - (NOTE_FREQUENCIES[b] ?? 0));
+
+  const header = ["String", "Clips", "Precision", "Recall", "Octave err", "Latency", "Missed"];
+  const rows = labels.map((note) => {
+    const s = stats[note];
+    const latency = median(s.latencies);
+    return [
+      note,
+      String(s.clips),
+      percent(s.correctPredictions, s.predictedFrames),
+      percent(s.truePositives, s.activeFrames),
+      percent(s.octaveErrors, s.detectedActiveFrames),
+      isNaN(latency) ? "-" : `${latency.toFixed(0)} ms`,
+      String(s.missedClips),
+    ];
+  });
+
+  const all = Object.values(stats);
+  const sum = (key: keyof Omit<StringStats, "latencies">) =>
+    all.reduce((total, s) => total + s[key], 0);
+  const overallLatency = median(all.flatMap((s) => s.latencies));
+  rows.push([
+    "All",
+    String(sum("clips")),
+    percent(sum("correctPredictions"), sum("predictedFrames")),
+    percent(sum("truePositives"), sum("activeFrames")),
+    percent(sum("octaveErrors"), sum("detectedActiveFrames")),
+    isNaN(overallLatency) ? "-" : `${overallLatency.toFixed(0)} ms`,
+    String(sum("missedClips")),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join("  ");
+
+  console.log(format(header));
+  console.log(widths.map((width) => "-".repeat(width)).join("  "));
+  rows.forEach((row, index) => {
+    if (index === rows.length - 1) {
+      console.log(widths.map((width) => "-".repeat(width)).join("  "));
+    }
+    console.log(format(row));
+  });
+};
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      synth: { type: "boolean", default: false },
+      takes: { type: "string", default: "3" },
+      noise: { type: "string", default: "0.002" },
+      detune: { type: "string", default: "10" },
+      detector: { type: "string", default: "nsdf" },
+      reference: { type: "string", default: String(DEFAULT_REFERENCE_PITCH) },
+      instrument: { type: "string", default: DEFAULT_INSTRUMENT_ID },
+      rms: { type: "string" },
+      clarity: { type: "string" },
+      flatness: { type: "string" },
+      cents: { type: "string" },
+      history: { type: "string" },
+      consistency: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || (!values.synth && positionals.length === 0)) {
+    console.log(HELP);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const detector = values.detector as PitchDetectorId;
+  if (!(detector in PITCH_DETECTORS)) {
+    throw new Error(`Unknown detector "${values.detector}"`);
+  }
+
+  const referencePitch = Number(values.reference);
+  if (!(referencePitch > 0)) {
+    throw new Error(`Invalid reference pitch "${values.reference}"`);
+  }
+
+  const instrument = INSTRUMENT_PROFILES.find((p) => p.id === values.instrument);
+  if (!instrument) {
+    throw new Error(`Unknown instrument "${values.instrument}"`);
+  }
+
+  const takes = Number(values.takes);
+  if (!Number.isInteger(takes) || takes < 1) {
+    throw new Error(`Invalid number of takes "${values.takes}"`);
+  }
+  const noise = Number(values.noise);
+  if (!(noise >= 0 && Number.isFinite(noise))) {
+    throw new Error(`Invalid noise level "${values.noise}"`);
+  }
+  const detune = Number(values.detune);
+  if (!(detune >= 0 && Number.isFinite(detune))) {
+    throw new Error(`Invalid detune "${values.detune}"`);
+  }
+
+  const settings: Partial<PitchTrackerSettings> = {};
+  const numeric: [keyof PitchTrackerSettings, string | undefined][] = [
+    ["rmsThreshold", values.rms],
+    ["correlationThreshold", values.clarity],
+    ["spectralFlatnessThreshold", values.flatness],
+    ["centsTolerance", values.cents],
+    ["historySize", values.history],
+    ["requiredConsistency", values.consistency],
+  ];
+  for (const [key, raw] of numeric) {
+    if (raw === undefined) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) throw new Error(`Invalid value for ${key}: ${raw}`);
+    settings[key] = value;
+  }
+
+  const clips: Clip[] = positionals
+    .flatMap(collectWavFiles)
+    .map(loadClip)
+    .filter((clip): clip is Clip => clip !== null);
+  if (values.synth) {
+    clips.push(
+      ...synthesizeClips(
+        takes,
+        noise,
+        detune,
+        referencePitch,
+        instrument
+      )
+    );
+  }
+  if (clips.length === 0) {
+    throw new Error("No labelled WAV files found");
+  }
+
+  console.log(
+    `Detector: ${PITCH_DETECTORS[detector].label} | ${instrument.name}` +
+      ` | A4: ${referencePitch} Hz` +
+      ` | Clips: ${clips.length}` +
+      (Object.keys(settings).length ? ` | Overrides: ${JSON.stringify(settings)}` : "")
+  );
+
+  const stats: Record<string, StringStats> = {};
+  for (const clip of clips) {
+    evaluateClip(clip, detector, settings, referencePitch, instrument, stats);
+  }
+  printReport(stats);
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
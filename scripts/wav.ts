@@ -0,0 +1,99 @@
+// Minimal RIFF/WAVE reader for benchmark fixtures (Node only).
+
+export interface WavData {
+  sampleRate: number;
+  samples: Float32Array; // Mono mixdown in the range -1..1
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Decode PCM (8/16/24/32-bit) or float (32/64-bit) WAV data to mono floats
+ */
+export function decodeWav(buffer: Uint8Array): WavData {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const readTag = (offset: number) =>
+    String.fromCharCode(...buffer.subarray(offset, offset + 4));
+
+  if (readTag(0) !== "RIFF" || readTag(8) !== "WAVE") {
+    throw new Error("Not a RIFF/WAVE file");
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        // First two bytes of the SubFormat GUID carry the real format
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      dataOffset = body;
+      dataLength = Math.min(size, buffer.length - body);
+      break;
+    }
+
+    offset = body + size + (size % 2); // Chunks are word aligned
+  }
+
+  if (!sampleRate || !channels) throw new Error("Missing fmt chunk");
+  if (dataOffset < 0) throw new Error("Missing data chunk");
+
+  const bytesPerSample = bitsPerSample / 8;
+  const readSample = (position: number): number => {
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+      return bitsPerSample === 64
+        ? view.getFloat64(position, true)
+        : view.getFloat32(position, true);
+    }
+    if (format !== WAVE_FORMAT_PCM) {
+      throw new Error(`Unsupported WAV format ${format}`);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(position) - 128) / 128;
+      case 16:
+        return view.getInt16(position, true) / 32768;
+      case 24: {
+        const value =
+          view.getUint8(position) |
+          (view.getUint8(position + 1) << 8) |
+          (view.getInt8(position + 2) << 16);
+        return value / 8388608;
+      }
+      case 32:
+        return view.getInt32(position, true) / 2147483648;
+      default:
+        throw new Error(`Unsupported bit depth ${bitsPerSample}`);
+    }
+  };
+
+  const frameSize = bytesPerSample * channels;
+  const frameCount = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += readSample(dataOffset + i * frameSize + c * bytesPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
@@ -0,0 +1,115 @@
+import {
+  DEFAULT_REFERENCE_PITCH,
+  MAX_REFERENCE_PITCH,
+  MIN_REFERENCE_PITCH,
+} from "../constants";
+import { StringCalibration } from "../types";
+import type { AudioEngine } from "./audioEngine";
+import { tryParsePitch } from "./pitch";
+import {
+  DEFAULT_PITCH_DETECTOR,
+  PITCH_DETECTORS,
+  PitchDetectorId,
+} from "./pitchDetectors";
+
+// Detection settings shared by the tutor and the tuner
+export interface AudioConfig {
+  rmsThreshold: number;
+  correlationThreshold: number;
+  holdDuration: number;
+  gain: number;
+  pitchDetector: PitchDetectorId;
+  referencePitch: number; // A4 in Hz
+  driftWarningCents: number; // Warn when a string drifts this far
+  stringCalibration: Record<string, StringCalibration>; // By string ("F#4")
+}
+
+export const getDefaultConfig = (): AudioConfig => ({
+  rmsThreshold: 0.0005,
+  correlationThreshold: 0.01,
+  holdDuration: 100,
+  gain: 1.5,
+  pitchDetector: DEFAULT_PITCH_DETECTOR,
+  referencePitch: DEFAULT_REFERENCE_PITCH,
+  driftWarningCents: 20,
+  stringCalibration: {},
+});
+
+// Ranges of the controls in TutorInterface (gain buttons, sliders); the
+// hold time has no control and is kept to what still feels responsive
+const CONFIG_LIMITS = {
+  rmsThreshold: [0.0001, 0.05],
+  correlationThreshold: [0.01, 0.95],
+  holdDuration: [20, 1000], // ms
+  gain: [0.5, 5],
+  driftWarningCents: [5, 45],
+} as const;
+
+export const clampReferencePitch = (value: number): number =>
+  Math.min(MAX_REFERENCE_PITCH, Math.max(MIN_REFERENCE_PITCH, value));
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * Calibration entries keyed by a real note with usable measurements;
+ * anything else would break the engine when the profile is applied
+ */
+const sanitizeStringCalibration = (
+  saved: unknown
+): Record<string, StringCalibration> => {
+  if (typeof saved !== "object" || !saved) return {};
+  const calibration: Record<string, StringCalibration> = {};
+  for (const [note, entry] of Object.entries(saved)) {
+    if (!tryParsePitch(note) || typeof entry !== "object" || !entry) continue;
+    const { frequency, rms, clarity } = entry as Record<string, unknown>;
+    if (
+      isPositiveNumber(frequency) &&
+      isPositiveNumber(rms) &&
+      isPositiveNumber(clarity)
+    ) {
+      calibration[note] = { frequency, rms, clarity };
+    }
+  }
+  return calibration;
+};
+
+/**
+ * Fill in defaults and fix out-of-range values in a stored or imported config
+ */
+export const sanitizeConfig = (saved: unknown): AudioConfig => {
+  const defaults = getDefaultConfig();
+  const config: AudioConfig = {
+    ...defaults,
+    ...(typeof saved === "object" && saved ? saved : {}),
+  };
+  for (const key of Object.keys(CONFIG_LIMITS) as (keyof typeof CONFIG_LIMITS)[]) {
+    const [min, max] = CONFIG_LIMITS[key];
+    config[key] = Number.isFinite(config[key])
+      ? Math.min(max, Math.max(min, config[key]))
+      : defaults[key];
+  }
+  if (!Object.hasOwn(PITCH_DETECTORS, config.pitchDetector)) {
+    config.pitchDetector = DEFAULT_PITCH_DETECTOR;
+  }
+  config.referencePitch = Number.isFinite(config.referencePitch)
+    ? clampReferencePitch(config.referencePitch)
+    : DEFAULT_REFERENCE_PITCH;
+  config.stringCalibration = sanitizeStringCalibration(config.stringCalibration);
+  return config;
+};
+
+/**
+ * Push every detection setting to the engine
+ */
+export const applyAudioConfig = (
+  engine: AudioEngine,
+  config: AudioConfig
+): void => {
+  engine.rmsThreshold = config.rmsThreshold;
+  engine.correlationThreshold = config.correlationThreshold;
+  engine.setGain(config.gain);
+  engine.setPitchDetector(config.pitchDetector);
+  engine.setReferencePitch(config.referencePitch);
+  engine.setCalibration(config.stringCalibration);
+};
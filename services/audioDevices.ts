@@ -0,0 +1,40 @@
+const STORAGE_KEY = "lyrehero-input-device";
+
+/**
+ * Microphones and other audio inputs. Labels stay empty until the user
+ * has granted microphone access once.
+ */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === "audioinput");
+  } catch (e) {
+    console.warn("Failed to list audio input devices:", e);
+    return [];
+  }
+};
+
+/**
+ * Input chosen in the Troubleshoot panel, null for the system default
+ */
+export const loadInputDevice = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("Failed to load input device from localStorage:", e);
+    return null;
+  }
+};
+
+export const saveInputDevice = (deviceId: string | null): void => {
+  try {
+    if (deviceId) {
+      localStorage.setItem(STORAGE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (e) {
+    console.warn("Failed to save input device to localStorage:", e);
+  }
+};
@@ -1,8 +1,48 @@
-import { NOTE_FREQUENCIES, LYRE_NOTES } from "../constants";
+import {
+  ANALYSIS_FFT_SIZE,
+  ANALYSIS_HOP_SIZE,
+  AnalysisFrame,
+  FrameAnalyzer,
+  PITCH_PROCESSOR_NAME,
+  PitchFrameMessage,
+  PitchProcessorCommand,
+  PitchProcessorOptions,
+} from "./frameAnalyzer";
+import { DEFAULT_PITCH_DETECTOR, PitchDetectorId } from "./pitchDetectors";
+import pitchProcessorUrl from "./pitchProcessor.worklet.ts?worker&url";
+import {
+  AudioEvent,
+  AudioEventListener,
+  AudioEventType,
+  NoteEventDetector,
+} from "./noteEvents";
+import { normalizeNoteName } from "./pitch";
+import { INPUT_GAIN, PitchResult, PitchTracker } from "./pitchTracker";
+import { StringCalibration } from "../types";
+
+export type { PitchResult } from "./pitchTracker";
+export type {
+  AudioEvent,
+  AudioEventListener,
+  AudioEventType,
+  LevelEvent,
+  NoteOffEvent,
+  NoteOnEvent,
+  OnsetEvent,
+  SilenceEvent,
+} from "./noteEvents";
+
+/**
+ * How far a string has drifted from its expected pitch during the session
+ */
+export interface StringDrift {
+  note: string;
+  cents: number; // Running average offset, positive = sharp
+  samples: number; // Accepted detections averaged so far
+}
 
-// Lyre harp frequency range: F3 (174.61 Hz) to C6 (1046.5 Hz)
-const LYRE_MIN_FREQ = 165; // Slightly below F3 to allow for tuning variations
-const LYRE_MAX_FREQ = 1100; // Slightly above C6
+// Weight of each new detection in the running average (~2s of ringing)
+const DRIFT_SMOOTHING = 0.01;
 
 export class AudioEngine {
   private audioContext: AudioContext | null = null;
@@ -11,92 +51,116 @@ export class AudioEngine {
   private gainNode: GainNode | null = null;
   private highPassFilter: BiquadFilterNode | null = null;
   private lowPassFilter: BiquadFilterNode | null = null; // Added for band-pass filtering
+  private workletNode: AudioWorkletNode | null = null;
   private stream: MediaStream | null = null;
   private buffer: Float32Array = new Float32Array(0);
-  private frequencyBuffer: Float32Array = new Float32Array(0); // For spectral analysis
   private isListening: boolean = false;
 
+  // Main-thread analysis, only used when AudioWorklet is unavailable
+  private fallbackAnalyzer: FrameAnalyzer | null = null;
+  private fallbackTimer: number | null = null;
+  private pitchDetector: PitchDetectorId = DEFAULT_PITCH_DETECTOR;
+
+  // Latest decision, refreshed by every analysis frame
+  private latestFrame: AnalysisFrame | null = null;
+  private latestResult: PitchResult | null = null;
+  // Frames arrive faster than the UI polls, so an onset is held until read
+  private pendingOnset: boolean = false;
+  private pendingOnsetNotes: string[] = [];
+
+  // Gating, smoothing and note mapping
+  private tracker = new PitchTracker();
+
+  // Note start/end events for subscribers, see on()
+  private noteEvents = new NoteEventDetector();
+  private listeners = new Map<
+    AudioEventType,
+    Set<(event: AudioEvent) => void>
+  >();
+
+  // Per-string tuning drift, kept across stop() for the whole session
+  private drift = new Map<string, StringDrift>();
+
+  // Called after the engine stopped because the microphone went away
+  // (unplugged, permission revoked). Not called for stop().
+  onDisconnect: (() => void) | null = null;
+
   // Configurable thresholds
-  public rmsThreshold: number = 0.002; // Slightly higher to reject quiet noise
-  public correlationThreshold: number = 0.3; // Much stricter - noise has low correlation
-
-  // Noise resistance: temporal smoothing
-  private noteHistory: string[] = [];
-  private frequencyHistory: number[] = [];
-  private readonly HISTORY_SIZE = 5; // Number of frames to consider
-  private readonly REQUIRED_CONSISTENCY = 3; // How many must agree
-
-  // Adaptive noise floor
-  private noiseFloor: number = 0.001;
-  private noiseFloorSamples: number[] = [];
-  private readonly NOISE_FLOOR_WINDOW = 50;
-
-  // Lyre-specific detection settings
-  private readonly HARMONIC_TOLERANCE = 0.08; // 8% tolerance for harmonic detection
-  private readonly SPECTRAL_FLATNESS_THRESHOLD = 0.3; // Below this = tonal sound
-  private readonly CENTS_TOLERANCE = 50; // Accept notes within 50 cents (half semitone)
-  private readonly HARMONIC_POWER_THRESHOLD_DB = 25; // Max dB difference from fundamental for harmonic
-  private readonly EPSILON_LOG_SAFE = 1e-10; // Small value to avoid log(0)
-
-  async start(): Promise<void> {
-    if (this.audioContext?.state === "running") return;
+  get rmsThreshold(): number {
+    return this.tracker.settings.rmsThreshold;
+  }
+  set rmsThreshold(value: number) {
+    this.tracker.settings.rmsThreshold = value;
+  }
 
-    if (!this.audioContext) {
-      this.audioContext = new (window.AudioContext ||
-        (window as any).webkitAudioContext)({
-        sampleRate: 48000, // Request specific sample rate if possible for consistency
-      });
-    }
+  get correlationThreshold(): number {
+    return this.tracker.settings.correlationThreshold;
+  }
+  set correlationThreshold(value: number) {
+    this.tracker.settings.correlationThreshold = value;
+  }
+
+  /**
+   * Start listening on the given input, or the system default.
+   * Falls back to the default if the device is no longer available.
+   */
+  async start(deviceId?: string): Promise<void> {
+    if (this.isListening) return;
+
+    const context = this.getAudioContext();
 
     try {
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,
-          autoGainControl: false,
-          noiseSuppression: false,
-          channelCount: 1,
-        },
-      });
+      this.stream = await this.openStream(deviceId);
+      for (const track of this.stream.getAudioTracks()) {
+        track.addEventListener("ended", this.handleDisconnect);
+      }
+      navigator.mediaDevices.addEventListener?.(
+        "devicechange",
+        this.handleDeviceChange
+      );
 
-      if (this.audioContext.state === "suspended") {
-        await this.audioContext.resume();
+      if (context.state === "suspended") {
+        await context.resume();
       }
 
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = 8192; // Large FFT for excellent low frequency resolution
+      const range = this.tracker.getFrequencyRange();
+
+      this.analyser = context.createAnalyser();
+      this.analyser.fftSize = ANALYSIS_FFT_SIZE;
       this.analyser.smoothingTimeConstant = 0; // No smoothing for accurate pitch detection
       this.buffer = new Float32Array(this.analyser.fftSize);
-      this.frequencyBuffer = new Float32Array(this.analyser.frequencyBinCount);
 
       // Create High-Pass Filter to remove low-frequency noise (rumble, HVAC, etc.)
       // Set just below lyre harp range to remove non-musical sounds
-      this.highPassFilter = this.audioContext.createBiquadFilter();
+      this.highPassFilter = context.createBiquadFilter();
       this.highPassFilter.type = "highpass";
-      this.highPassFilter.frequency.value = 150; // Cut frequencies below lyre range
+      this.highPassFilter.frequency.value = range.highpassHz; // Cut frequencies below lyre range
       this.highPassFilter.Q.value = 0.7; // Gentle rolloff
 
       // Create Low-Pass Filter to remove high-frequency noise (hiss, electronics)
       // This creates a band-pass effect focused on lyre harp frequencies
-      this.lowPassFilter = this.audioContext.createBiquadFilter();
+      this.lowPassFilter = context.createBiquadFilter();
       this.lowPassFilter.type = "lowpass";
-      this.lowPassFilter.frequency.value = 1200; // Cut frequencies above lyre range
+      this.lowPassFilter.frequency.value = range.lowpassHz; // Cut frequencies above lyre range
       this.lowPassFilter.Q.value = 0.7; // Gentle rolloff
 
       // Create Gain Node to boost quiet microphones
-      this.gainNode = this.audioContext.createGain();
-      this.gainNode.gain.value = 1.5; // 150% volume boost - avoid clipping
+      this.gainNode = context.createGain();
+      this.gainNode.gain.value = INPUT_GAIN;
 
-      this.mediaStreamSource = this.audioContext.createMediaStreamSource(
+      this.mediaStreamSource = context.createMediaStreamSource(
         this.stream
       );
 
-      // Signal path: Source -> HighPass -> LowPass -> Gain -> Analyser
+      // Signal path: Source -> HighPass -> LowPass -> Gain -> Analyser (+ Worklet)
       // This creates a band-pass filter effect for lyre harp frequencies
       this.mediaStreamSource.connect(this.highPassFilter);
       this.highPassFilter.connect(this.lowPassFilter);
       this.lowPassFilter.connect(this.gainNode);
       this.gainNode.connect(this.analyser);
 
+      await this.startWorklet(context, this.gainNode);
+
       this.isListening = true;
     } catch (error) {
       console.error("Error starting audio engine:", error);
@@ -105,14 +169,160 @@ export class AudioEngine {
     }
   }
 
+  private async openStream(deviceId?: string): Promise<MediaStream> {
+    const audio: MediaTrackConstraints = {
+      echoCancellation: false,
+      autoGainControl: false,
+      noiseSuppression: false,
+      channelCount: 1,
+    };
+    if (!deviceId) return navigator.mediaDevices.getUserMedia({ audio });
+
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...audio, deviceId: { exact: deviceId } },
+      });
+    } catch (error) {
+      const name = (error as DOMException)?.name;
+      if (name !== "OverconstrainedError" && name !== "NotFoundError") {
+        throw error;
+      }
+      console.warn("AudioEngine: input device missing, using default", error);
+      return navigator.mediaDevices.getUserMedia({ audio });
+    }
+  }
+
+  /**
+   * A device was plugged in or out; stop if it was ours
+   */
+  private handleDeviceChange = async (): Promise<void> => {
+    const deviceId = this.getDeviceId();
+    if (!deviceId || !navigator.mediaDevices?.enumerateDevices) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const isPresent = devices.some(
+      (device) => device.kind === "audioinput" && device.deviceId === deviceId
+    );
+    if (!isPresent) this.handleDisconnect();
+  };
+
+  private handleDisconnect = (): void => {
+    if (!this.isListening) return;
+    console.warn("AudioEngine: input device disconnected");
+    this.stop();
+    this.onDisconnect?.();
+  };
+
+  /**
+   * Run pitch analysis on the audio rendering thread.
+   * Falls back to polling the AnalyserNode on a timer when
+   * AudioWorklet is not supported or the module fails to load.
+   */
+  private async startWorklet(
+    context: AudioContext,
+    input: AudioNode
+  ): Promise<void> {
+    if (!context.audioWorklet) {
+      console.warn("AudioEngine: AudioWorklet unsupported, using main thread");
+      this.startFallback(context);
+      return;
+    }
+
+    try {
+      await context.audioWorklet.addModule(pitchProcessorUrl);
+
+      const range = this.tracker.getFrequencyRange();
+      const processorOptions: PitchProcessorOptions = {
+        fftSize: ANALYSIS_FFT_SIZE,
+        hopSize: ANALYSIS_HOP_SIZE,
+        minFrequency: range.minFrequency,
+        maxFrequency: range.maxFrequency,
+        detector: this.pitchDetector,
+      };
+      this.workletNode = new AudioWorkletNode(context, PITCH_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        processorOptions,
+      });
+      this.workletNode.port.onmessage = (
+        event: MessageEvent<PitchFrameMessage>
+      ) => {
+        if (event.data.type === "frame") {
+          this.handleFrame(event.data);
+        }
+      };
+      input.connect(this.workletNode);
+    } catch (error) {
+      console.warn("AudioEngine: AudioWorklet failed, using main thread", error);
+      this.workletNode = null;
+      this.startFallback(context);
+    }
+  }
+
+  /**
+   * Analyse on the main thread, one frame per hop like the worklet
+   */
+  private startFallback(context: AudioContext): void {
+    this.fallbackAnalyzer = this.createFallbackAnalyzer(context.sampleRate);
+    const hopMs = (ANALYSIS_HOP_SIZE / context.sampleRate) * 1000;
+    this.fallbackTimer = window.setInterval(() => this.analyzeFallback(), hopMs);
+  }
+
+  private analyzeFallback(): void {
+    if (!this.analyser || !this.audioContext || !this.fallbackAnalyzer) return;
+    // Safety check for buffer size
+    if (this.buffer.length !== this.analyser.fftSize) {
+      this.buffer = new Float32Array(this.analyser.fftSize);
+    }
+    this.analyser.getFloatTimeDomainData(this.buffer as any);
+    this.handleFrame({
+      time: this.audioContext.currentTime,
+      ...this.fallbackAnalyzer.analyze(this.buffer),
+    });
+  }
+
+  private createFallbackAnalyzer(sampleRate: number): FrameAnalyzer {
+    const range = this.tracker.getFrequencyRange();
+    return new FrameAnalyzer({
+      sampleRate,
+      fftSize: ANALYSIS_FFT_SIZE,
+      minFrequency: range.minFrequency,
+      maxFrequency: range.maxFrequency,
+      detector: this.pitchDetector,
+    });
+  }
+
+  /**
+   * Send a command to the worklet, if one is running
+   */
+  private postToWorklet(command: PitchProcessorCommand): void {
+    this.workletNode?.port.postMessage(command);
+  }
+
   stop(): void {
+    const stopTime = this.audioContext?.currentTime ?? 0;
+    if (this.fallbackTimer !== null) {
+      clearInterval(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
     if (this.mediaStreamSource) this.mediaStreamSource.disconnect();
     if (this.highPassFilter) this.highPassFilter.disconnect();
     if (this.lowPassFilter) this.lowPassFilter.disconnect();
     if (this.gainNode) this.gainNode.disconnect();
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+    }
 
+    navigator.mediaDevices?.removeEventListener?.(
+      "devicechange",
+      this.handleDeviceChange
+    );
     if (this.stream) {
-      this.stream.getTracks().forEach((track) => track.stop());
+      this.stream.getTracks().forEach((track) => {
+        track.removeEventListener("ended", this.handleDisconnect);
+        track.stop();
+      });
       this.stream = null;
     }
 
@@ -126,13 +336,40 @@ export class AudioEngine {
     this.highPassFilter = null;
     this.lowPassFilter = null;
     this.gainNode = null;
+    this.workletNode = null;
+    this.fallbackAnalyzer = null;
     this.isListening = false;
 
     // Reset noise tracking
-    this.noteHistory = [];
-    this.frequencyHistory = [];
-    this.noiseFloorSamples = [];
-    this.noiseFloor = 0.001;
+    this.latestFrame = null;
+    this.latestResult = null;
+    this.pendingOnset = false;
+    this.pendingOnsetNotes = [];
+    this.tracker.reset();
+
+    // Subscribers see every note end, also when the microphone stops
+    this.noteEvents.reset(stopTime).forEach((event) => this.emit(event));
+  }
+
+  /**
+   * ID of the microphone in use, null when not listening
+   */
+  getDeviceId(): string | null {
+    return this.stream?.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  /**
+   * The engine's AudioContext, created if needed, so playback shares the
+   * audio clock of the events. Closed by stop().
+   */
+  getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext ||
+        (window as any).webkitAudioContext)({
+        sampleRate: 48000, // Request specific sample rate if possible for consistency
+      });
+    }
+    return this.audioContext;
   }
 
   getAnalyser(): AnalyserNode | null {
@@ -145,418 +382,217 @@ export class AudioEngine {
     }
   }
 
-  detectPitch(): {
-    note: string;
-    frequency: number;
-    clarity: number;
-    volume: number;
-  } | null {
-    if (!this.analyser || !this.isListening || !this.audioContext) {
-      console.log("AudioEngine: Not ready", {
-        analyser: !!this.analyser,
-        listening: this.isListening,
-        context: !!this.audioContext,
-      });
-      return null;
-    }
-
-    // Safety check for buffer size
-    if (this.buffer.length !== this.analyser.fftSize) {
-      this.buffer = new Float32Array(this.analyser.fftSize);
-    }
-    if (this.frequencyBuffer.length !== this.analyser.frequencyBinCount) {
-      this.frequencyBuffer = new Float32Array(this.analyser.frequencyBinCount);
-    }
-
-    this.analyser.getFloatTimeDomainData(this.buffer as any);
-    this.analyser.getFloatFrequencyData(this.frequencyBuffer as any);
-
-    // 1. Calculate RMS (Volume)
-    let rms = 0;
-    const bufferLength = this.buffer.length;
-    for (let i = 0; i < bufferLength; i++) {
-      rms += this.buffer[i] * this.buffer[i];
-    }
-    rms = Math.sqrt(rms / bufferLength);
-
-    // 2. Update adaptive noise floor (tracks quiet periods)
-    this.updateNoiseFloor(rms);
-
-    // 3. Calculate Zero-Crossing Rate (noise has erratic crossings)
-    const zcr = this.calculateZeroCrossingRate(this.buffer);
-    const isLikelyNoise = zcr > 0.3; // High ZCR suggests noise, not pitched signal
-
-    // 4. Calculate spectral flatness (tonality measure)
-    // Low flatness = tonal sound (music), High flatness = noise
-    const spectralFlatness = this.calculateSpectralFlatness(
-      this.frequencyBuffer,
-      this.audioContext.sampleRate
-    );
-    const isTonalSound = spectralFlatness < this.SPECTRAL_FLATNESS_THRESHOLD;
-
-    // 5. Perform Pitch Detection
-    const result = this.detectPitchNSDF(
-      this.buffer,
-      this.audioContext.sampleRate
-    );
-
-    // 6. Check for harmonic content (musical notes have harmonics)
-    const hasHarmonics = this.checkHarmonicContent(
-      this.frequencyBuffer,
-      result.frequency,
-      this.audioContext.sampleRate
-    );
-
-    // 7. Determine raw detected note (before temporal smoothing)
-    let rawNote = "";
-    const effectiveThreshold = Math.max(this.rmsThreshold, this.noiseFloor * 2);
-
-    // Enhanced detection criteria for lyre harp:
-    // - Must pass volume threshold
-    // - Must have good pitch clarity
-    // - Must not have excessive zero-crossings (noise indicator)
-    // - Must be tonal (low spectral flatness) OR have harmonic content
-    // - Frequency must be in lyre harp range
-    const isValidLyreFrequency =
-      result.frequency >= LYRE_MIN_FREQ && result.frequency <= LYRE_MAX_FREQ;
-
-    if (
-      rms > effectiveThreshold &&
-      result.clarity > this.correlationThreshold &&
-      !isLikelyNoise &&
-      isValidLyreFrequency &&
-      (isTonalSound || hasHarmonics)
-    ) {
-      rawNote = this.frequencyToLyreNote(result.frequency);
-    }
-
-    // 8. Apply temporal smoothing - only accept notes that are consistent
-    this.noteHistory.push(rawNote);
-    this.frequencyHistory.push(result.frequency);
-    if (this.noteHistory.length > this.HISTORY_SIZE) {
-      this.noteHistory.shift();
-      this.frequencyHistory.shift();
-    }
-
-    const stableNote = this.getMostConsistentNote();
-    const stableFrequency = this.getMedianFrequency();
-
-    // Debug logging
-    console.log("AudioEngine detectPitch:", {
-      rms: rms.toFixed(4),
-      noiseFloor: this.noiseFloor.toFixed(4),
-      freq: result.frequency.toFixed(1),
-      clarity: result.clarity.toFixed(3),
-      zcr: zcr.toFixed(3),
-      spectralFlatness: spectralFlatness.toFixed(3),
-      hasHarmonics,
-      isTonal: isTonalSound,
-      rawNote,
-      stableNote,
-    });
-
-    return {
-      note: stableNote,
-      frequency: stableFrequency,
-      clarity: result.clarity,
-      volume: rms,
-    };
+  /**
+   * Switch the pitch detection algorithm, also while listening
+   */
+  setPitchDetector(id: PitchDetectorId): void {
+    if (id === this.pitchDetector) return;
+    this.pitchDetector = id;
+    this.fallbackAnalyzer?.setDetector(id);
+    this.postToWorklet({ type: "detector", detector: id });
+
+    // Old frames were judged by a different algorithm
+    this.tracker.clearHistory();
   }
 
   /**
-   * Update adaptive noise floor based on recent quiet samples
+   * Retune note matching, analysis range and input filters to a new
+   * concert pitch (frequency of A4), also while listening
    */
-  private updateNoiseFloor(rms: number): void {
-    // Only update noise floor during quiet periods
-    if (rms < this.noiseFloor * 3 || this.noiseFloorSamples.length < 10) {
-      this.noiseFloorSamples.push(rms);
-      if (this.noiseFloorSamples.length > this.NOISE_FLOOR_WINDOW) {
-        this.noiseFloorSamples.shift();
-      }
-      // Noise floor is the median of recent quiet samples
-      const sorted = [...this.noiseFloorSamples].sort((a, b) => a - b);
-      this.noiseFloor = sorted[Math.floor(sorted.length / 2)] || 0.001;
-    }
+  setReferencePitch(referencePitch: number): void {
+    if (referencePitch === this.tracker.getReferencePitch()) return;
+    this.tracker.setReferencePitch(referencePitch);
+    this.applyFrequencyRange();
+    // Offsets were measured against the old note table
+    this.drift.clear();
   }
 
   /**
-   * Calculate zero-crossing rate - high values indicate noise
+   * Restrict detection to the pitches the instrument's strings produce
+   * with the current tuning and levers (lowest first)
+   * @throws InvalidPitchError for a string that is not a note name
    */
-  private calculateZeroCrossingRate(buffer: Float32Array): number {
-    let crossings = 0;
-    const len = Math.min(buffer.length, 2048); // Only analyze a portion
-    for (let i = 1; i < len; i++) {
-      if (
-        (buffer[i] >= 0 && buffer[i - 1] < 0) ||
-        (buffer[i] < 0 && buffer[i - 1] >= 0)
-      ) {
-        crossings++;
-      }
-    }
-    return crossings / len;
+  setStrings(strings: readonly string[]): void {
+    // Detected notes are always reported in the same spelling ("F#4")
+    this.tracker.setStrings(strings.map((note) => normalizeNoteName(note)));
+    this.applyFrequencyRange();
   }
 
   /**
-   * Get the most frequently occurring note in recent history
+   * Use per-string measurements from calibration for matching and gating.
+   * Strings without an entry keep the global thresholds.
+   * @throws InvalidPitchError for a key that is not a note name
    */
-  private getMostConsistentNote(): string {
-    if (this.noteHistory.length < this.REQUIRED_CONSISTENCY) return "";
-
-    // Count occurrences of each note
-    const counts: Record<string, number> = {};
-    for (const note of this.noteHistory) {
-      if (note) {
-        // Don't count empty strings
-        counts[note] = (counts[note] || 0) + 1;
-      }
-    }
-
-    // Find the note with the highest count
-    let maxCount = 0;
-    let bestNote = "";
-    for (const [note, count] of Object.entries(counts)) {
-      if (count > maxCount) {
-        maxCount = count;
-        bestNote = note;
-      }
+  setCalibration(calibration: Record<string, StringCalibration>): void {
+    const normalized: Record<string, StringCalibration> = {};
+    for (const [note, measurement] of Object.entries(calibration)) {
+      normalized[normalizeNoteName(note)] = measurement;
     }
-
-    // Only return if we have enough consistency
-    return maxCount >= this.REQUIRED_CONSISTENCY ? bestNote : "";
+    this.tracker.setCalibration(normalized);
   }
 
   /**
-   * Get median frequency from recent history (reduces jitter)
+   * Tell the tracker which notes the current step asks for, so a string an
+   * octave or a twelfth above another one is not dropped as its overtone
+   * @throws InvalidPitchError for a name that is not a note
    */
-  private getMedianFrequency(): number {
-    if (this.frequencyHistory.length === 0) return 0;
-    const sorted = [...this.frequencyHistory].sort((a, b) => a - b);
-    return sorted[Math.floor(sorted.length / 2)];
+  setExpectedNotes(notes: string[]): void {
+    this.tracker.setExpectedNotes(notes.map((note) => normalizeNoteName(note)));
   }
 
   /**
-   * Calculate spectral flatness (Wiener entropy)
-   * Low values indicate tonal sounds (musical notes)
-   * High values indicate noise-like sounds
+   * Push the tracker's current range to the filters and the analysis
    */
-  private calculateSpectralFlatness(
-    frequencyData: Float32Array,
-    sampleRate: number
-  ): number {
-    // Focus on lyre harp frequency range for better accuracy
-    const binWidth = sampleRate / (frequencyData.length * 2);
-    const minBin = Math.floor(LYRE_MIN_FREQ / binWidth);
-    const maxBin = Math.min(
-      Math.ceil(LYRE_MAX_FREQ / binWidth),
-      frequencyData.length - 1
+  private applyFrequencyRange(): void {
+    const range = this.tracker.getFrequencyRange();
+    if (this.highPassFilter) {
+      this.highPassFilter.frequency.value = range.highpassHz;
+    }
+    if (this.lowPassFilter) {
+      this.lowPassFilter.frequency.value = range.lowpassHz;
+    }
+    this.fallbackAnalyzer?.setFrequencyRange(
+      range.minFrequency,
+      range.maxFrequency
     );
+    this.postToWorklet({
+      type: "range",
+      minFrequency: range.minFrequency,
+      maxFrequency: range.maxFrequency,
+    });
+  }
 
-    if (maxBin <= minBin) return 1.0; // Return high flatness if range is invalid
-
-    // Convert dB to linear power values
-    const powers: number[] = [];
-    for (let i = minBin; i <= maxBin; i++) {
-      // frequencyData is in dB, convert to linear power
-      const linearPower = Math.pow(10, frequencyData[i] / 10);
-      if (linearPower > 0) {
-        powers.push(linearPower);
-      }
+  /**
+   * Return the latest stable detection, a cheap read of the result computed
+   * from the most recent audio frame. Subscribe with on() instead to get
+   * note starts and ends without polling.
+   */
+  detectPitch(): PitchResult | null {
+    if (!this.analyser || !this.isListening || !this.audioContext) {
+      return null;
     }
 
-    if (powers.length === 0) return 1.0;
-
-    // Calculate geometric mean and arithmetic mean
-    let logSum = 0;
-    let arithmeticSum = 0;
-    for (const power of powers) {
-      logSum += Math.log(power + this.EPSILON_LOG_SAFE); // Add small value to avoid log(0)
-      arithmeticSum += power;
+    const frame = this.latestFrame;
+    const result = this.latestResult;
+    if (!frame || !result) {
+      // Worklet has not filled its first window yet
+      return {
+        note: "",
+        notes: [],
+        frequency: 0,
+        clarity: 0,
+        volume: 0,
+        time: this.audioContext.currentTime,
+        onset: false,
+        onsetNotes: [],
+      };
     }
 
-    const geometricMean = Math.exp(logSum / powers.length);
-    const arithmeticMean = arithmeticSum / powers.length;
-
-    // Spectral flatness is the ratio of geometric to arithmetic mean
-    // Value between 0 (tonal) and 1 (noise-like)
-    if (arithmeticMean <= 0) return 1.0;
-    return Math.min(1.0, geometricMean / arithmeticMean);
+    // Report each onset exactly once, even if several frames passed
+    const onset = this.pendingOnset;
+    const onsetNotes = this.pendingOnsetNotes;
+    this.pendingOnset = false;
+    this.pendingOnsetNotes = [];
+    return { ...result, onset, onsetNotes };
   }
 
   /**
-   * Check if the detected fundamental frequency has harmonics present
-   * Musical notes from stringed instruments have clear harmonic series
+   * Running cents offset of every string heard so far
    */
-  private checkHarmonicContent(
-    frequencyData: Float32Array,
-    fundamentalFreq: number,
-    sampleRate: number
-  ): boolean {
-    if (fundamentalFreq <= 0) return false;
-
-    const binWidth = sampleRate / (frequencyData.length * 2);
-    const fundamentalBin = Math.round(fundamentalFreq / binWidth);
-
-    // Get the power at the fundamental frequency
-    if (fundamentalBin >= frequencyData.length) return false;
-    const fundamentalPower = frequencyData[fundamentalBin];
-
-    // Check for the 2nd and 3rd harmonics (most prominent in stringed instruments)
-    let harmonicsFound = 0;
-    const harmonicsToCheck = [2, 3]; // 2nd and 3rd harmonics
-
-    for (const harmonic of harmonicsToCheck) {
-      const harmonicFreq = fundamentalFreq * harmonic;
-      if (harmonicFreq > LYRE_MAX_FREQ * 2) continue; // Allow harmonics above lyre range
-
-      const harmonicBin = Math.round(harmonicFreq / binWidth);
-      if (harmonicBin >= frequencyData.length) continue;
-
-      // Check if there's significant energy at the harmonic frequency
-      // Allow some tolerance in frequency (bins around the expected harmonic)
-      let maxHarmonicPower = -Infinity;
-      const searchRange = Math.max(1, Math.round(harmonicBin * this.HARMONIC_TOLERANCE));
-      for (
-        let b = Math.max(0, harmonicBin - searchRange);
-        b <= Math.min(frequencyData.length - 1, harmonicBin + searchRange);
-        b++
-      ) {
-        if (frequencyData[b] > maxHarmonicPower) {
-          maxHarmonicPower = frequencyData[b];
-        }
-      }
+  getDrift(): StringDrift[] {
+    return Array.from(this.drift.values(), (drift) => ({ ...drift }));
+  }
 
-      // Harmonic should be present (within threshold of fundamental is typical for strings)
-      if (maxHarmonicPower > fundamentalPower - this.HARMONIC_POWER_THRESHOLD_DB) {
-        harmonicsFound++;
-      }
+  /**
+   * Start measuring again, e.g. after retuning a string (all if omitted)
+   */
+  resetDrift(note?: string): void {
+    if (note === undefined) {
+      this.drift.clear();
+    } else {
+      this.drift.delete(normalizeNoteName(note));
     }
-
-    // Require at least one harmonic to confirm it's a musical note
-    return harmonicsFound >= 1;
   }
 
   /**
-   * Convert frequency to a lyre harp note using cents-based tolerance
-   * Only returns valid lyre notes (F3 to C6, diatonic)
-   * Uses musical cents for more accurate pitch matching
+   * Subscribe to events derived from every analysed frame: noteOn, noteOff,
+   * onset, silence and level. Returns a function that unsubscribes.
    */
-  private frequencyToLyreNote(frequency: number): string {
-    if (frequency < LYRE_MIN_FREQ || frequency > LYRE_MAX_FREQ) return "";
-
-    let minCents = Infinity;
-    let bestNote = "";
-
-    // Only check against valid lyre notes
-    for (const noteName of LYRE_NOTES) {
-      const noteFreq = NOTE_FREQUENCIES[noteName];
-      if (!noteFreq) continue;
-
-      // Calculate difference in cents (1200 cents = 1 octave)
-      // cents = 1200 * log2(f1/f2)
-      const cents = Math.abs(1200 * Math.log2(frequency / noteFreq));
-
-      if (cents < minCents) {
-        minCents = cents;
-        bestNote = noteName;
-      }
+  on<K extends AudioEventType>(
+    type: K,
+    listener: AudioEventListener<K>
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
     }
+    listeners.add(listener as (event: AudioEvent) => void);
+    return () => this.off(type, listener);
+  }
 
-    // Only accept if within tolerance (50 cents = half semitone)
-    if (minCents > this.CENTS_TOLERANCE) {
-      return "";
-    }
+  off<K extends AudioEventType>(
+    type: K,
+    listener: AudioEventListener<K>
+  ): void {
+    this.listeners.get(type)?.delete(listener as (event: AudioEvent) => void);
+  }
 
-    return bestNote;
+  private emit(event: AudioEvent): void {
+    this.listeners.get(event.type)?.forEach((listener) => {
+      // One failing subscriber must not starve the others
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`AudioEngine: ${event.type} listener failed`, error);
+      }
+    });
   }
 
   /**
-   * Improved NSDF (Normalized Square Difference Function) pitch detection
-   * Uses parabolic interpolation and proper peak picking
+   * Run the tracker on a new frame, keep its decision for detectPitch()
+   * and notify subscribers
    */
-  private detectPitchNSDF(
-    buffer: Float32Array,
-    sampleRate: number
-  ): { frequency: number; clarity: number } {
-    // Use lyre frequency range with some margin for detection
-    const MIN_FREQ = LYRE_MIN_FREQ * 0.8; // Allow slightly below range for detection margin
-    const MAX_FREQ = LYRE_MAX_FREQ * 1.1; // Allow slightly above range for detection margin
-
-    const minPeriod = Math.floor(sampleRate / MAX_FREQ);
-    const maxPeriod = Math.floor(sampleRate / MIN_FREQ);
-    const analysisSize = Math.min(2048, buffer.length);
-
-    // Calculate NSDF values for each period
-    const nsdf: number[] = [];
-    for (
-      let period = minPeriod;
-      period <= maxPeriod && period < analysisSize;
-      period++
-    ) {
-      let acf = 0; // Autocorrelation
-      let energy1 = 0;
-      let energy2 = 0;
-
-      const compareLength = Math.min(analysisSize - period, 512);
-
-      for (let i = 0; i < compareLength; i++) {
-        const val1 = buffer[i];
-        const val2 = buffer[i + period];
-        acf += val1 * val2;
-        energy1 += val1 * val1;
-        energy2 += val2 * val2;
+  private handleFrame(frame: AnalysisFrame): void {
+    const result = this.tracker.process(frame);
+    this.latestFrame = frame;
+    this.latestResult = result;
+    if (result.onset) this.pendingOnset = true;
+    for (const note of result.onsetNotes) {
+      if (!this.pendingOnsetNotes.includes(note)) {
+        this.pendingOnsetNotes.push(note);
       }
-
-      // NSDF formula: 2 * r(t) / (m(0) + m(t))
-      const energySum = energy1 + energy2;
-      const nsdfValue = energySum > 0.0000001 ? (2 * acf) / energySum : 0;
-      nsdf.push(nsdfValue);
     }
+    if (result.note) this.trackDrift(result.note, frame.frequency);
 
-    // Find peaks in NSDF (local maxima above threshold)
-    const peaks: { period: number; value: number }[] = [];
-    const PEAK_THRESHOLD = 0.2; // Minimum NSDF value to consider
-
-    for (let i = 1; i < nsdf.length - 1; i++) {
-      if (
-        nsdf[i] > nsdf[i - 1] &&
-        nsdf[i] > nsdf[i + 1] &&
-        nsdf[i] > PEAK_THRESHOLD
-      ) {
-        // Parabolic interpolation for sub-sample accuracy
-        const alpha = nsdf[i - 1];
-        const beta = nsdf[i];
-        const gamma = nsdf[i + 1];
-        const peakOffset = (0.5 * (alpha - gamma)) / (alpha - 2 * beta + gamma);
-        const interpolatedPeriod = minPeriod + i + peakOffset;
-        const interpolatedValue = beta - 0.25 * (alpha - gamma) * peakOffset;
-
-        peaks.push({ period: interpolatedPeriod, value: interpolatedValue });
-      }
+    // Last, because a subscriber may stop the engine
+    for (const event of this.noteEvents.process(result)) {
+      if (!this.isListening) break;
+      this.emit(event);
     }
+  }
 
-    if (peaks.length === 0) {
-      return { frequency: 0, clarity: 0 };
+  /**
+   * Fold one accepted detection into the string's running offset
+   */
+  private trackDrift(note: string, frequency: number): void {
+    const cents = this.tracker.getCentsOffset(note, frequency);
+    // This frame may already belong to the next string
+    if (
+      cents === null ||
+      Math.abs(cents) > this.tracker.settings.centsTolerance
+    ) {
+      return;
     }
 
-    // Select the first peak that's at least 80% of the maximum
-    // This helps avoid octave errors (picking harmonics instead of fundamental)
-    const maxPeakValue = Math.max(...peaks.map((p) => p.value));
-    const threshold = maxPeakValue * 0.8;
-
-    let bestPeak = peaks[0];
-    for (const peak of peaks) {
-      if (peak.value >= threshold) {
-        bestPeak = peak;
-        break; // Take the first (lowest frequency) peak above threshold
-      }
+    const drift = this.drift.get(note);
+    if (!drift) {
+      this.drift.set(note, { note, cents, samples: 1 });
+      return;
     }
-
-    const frequency = sampleRate / bestPeak.period;
-    const clampedFreq = Math.max(MIN_FREQ, Math.min(frequency, MAX_FREQ));
-
-    return {
-      frequency: clampedFreq,
-      clarity: Math.max(0, Math.min(1, bestPeak.value)),
-    };
+    drift.samples++;
+    // Plain mean until there are enough samples, then exponential
+    const weight = Math.max(1 / drift.samples, DRIFT_SMOOTHING);
+    drift.cents += (cents - drift.cents) * weight;
   }
 }
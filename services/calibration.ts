@@ -0,0 +1,35 @@
+import { StringCalibration } from "../types";
+
+// Frames of a ringing string needed to calibrate it (~0.5s at 48kHz)
+export const CALIBRATION_FRAMES = 25;
+// Readings further than this from the expected note belong to another string
+const CALIBRATION_CENTS = 50;
+
+/**
+ * Whether a reading was the expected string ringing clearly enough to keep
+ */
+export const isCalibrationSample = (
+  sample: StringCalibration,
+  expectedFrequency: number,
+  minRms: number
+): boolean => {
+  if (sample.frequency <= 0 || sample.rms <= minRms) return false;
+  const cents = 1200 * Math.log2(sample.frequency / expectedFrequency);
+  return Math.abs(cents) <= CALIBRATION_CENTS;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+/**
+ * Typical frequency, volume and clarity of a string from its samples
+ */
+export const summarizeCalibration = (
+  samples: StringCalibration[]
+): StringCalibration => ({
+  frequency: median(samples.map((sample) => sample.frequency)),
+  rms: median(samples.map((sample) => sample.rms)),
+  clarity: median(samples.map((sample) => sample.clarity)),
+});
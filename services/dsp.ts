@@ -0,0 +1,304 @@
+// Pure signal-processing helpers shared by the AudioWorklet processor and the
+// main-thread fallback. Nothing in here touches the Web Audio API.
+
+const HARMONIC_TOLERANCE = 0.08; // 8% tolerance for harmonic detection
+const HARMONIC_POWER_THRESHOLD_DB = 25; // Max dB difference from fundamental for harmonic
+const EPSILON_LOG_SAFE = 1e-10; // Small value to avoid log(0)
+const FLUX_COMPRESSION = 100; // log(1 + C*|X|) keeps flux comparable across loudness
+
+export interface PitchEstimate {
+  frequency: number;
+  clarity: number;
+}
+
+/**
+ * Magnitude spectrum in dB using a Blackman window and radix-2 FFT.
+ * Output matches AnalyserNode.getFloatFrequencyData (with smoothing disabled)
+ * so thresholds tuned against the analyser keep working.
+ */
+export class SpectrumAnalyzer {
+  readonly size: number;
+  private window: Float32Array;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private reverseTable: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+    this.size = size;
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+
+    this.window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const phase = (2 * Math.PI * i) / size;
+      this.window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    }
+
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = -Math.sin((2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reverseTable = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.reverseTable[i] = reversed;
+    }
+  }
+
+  /**
+   * Write size / 2 dB magnitude bins for the newest `size` samples of timeDomain
+   */
+  getFloatFrequencyData(timeDomain: Float32Array, output: Float32Array): void {
+    const { size, real, imag } = this;
+    const offset = timeDomain.length - size;
+
+    for (let i = 0; i < size; i++) {
+      const sample = offset + i >= 0 ? timeDomain[offset + i] : 0;
+      const target = this.reverseTable[i];
+      real[target] = sample * this.window[i];
+      imag[target] = 0;
+    }
+
+    // Iterative Cooley-Tukey butterflies
+    for (let half = 1; half < size; half <<= 1) {
+      const step = size / (half * 2);
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * step];
+          const sin = this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tReal = real[b] * cos - imag[b] * sin;
+          const tImag = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+        }
+      }
+    }
+
+    const bins = Math.min(output.length, size / 2);
+    for (let i = 0; i < bins; i++) {
+      const magnitude = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / size;
+      output[i] = 20 * Math.log10(magnitude);
+    }
+  }
+}
+
+/**
+ * Root-mean-square level of a buffer
+ */
+export function calculateRms(buffer: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  return buffer.length > 0 ? Math.sqrt(sum / buffer.length) : 0;
+}
+
+/**
+ * Calculate zero-crossing rate - high values indicate noise
+ */
+export function calculateZeroCrossingRate(buffer: Float32Array): number {
+  let crossings = 0;
+  const len = Math.min(buffer.length, 2048); // Only analyze a portion
+  for (let i = 1; i < len; i++) {
+    if (
+      (buffer[i] >= 0 && buffer[i - 1] < 0) ||
+      (buffer[i] < 0 && buffer[i - 1] >= 0)
+    ) {
+      crossings++;
+    }
+  }
+  return len > 0 ? crossings / len : 0;
+}
+
+/**
+ * Calculate spectral flatness (Wiener entropy) within a frequency range.
+ * Low values indicate tonal sounds (musical notes),
+ * high values indicate noise-like sounds.
+ */
+export function calculateSpectralFlatness(
+  frequencyData: Float32Array,
+  sampleRate: number,
+  minFrequency: number,
+  maxFrequency: number
+): number {
+  const binWidth = sampleRate / (frequencyData.length * 2);
+  const minBin = Math.floor(minFrequency / binWidth);
+  const maxBin = Math.min(
+    Math.ceil(maxFrequency / binWidth),
+    frequencyData.length - 1
+  );
+
+  if (maxBin <= minBin) return 1.0; // Return high flatness if range is invalid
+
+  let logSum = 0;
+  let arithmeticSum = 0;
+  let count = 0;
+  for (let i = minBin; i <= maxBin; i++) {
+    // frequencyData is in dB, convert to linear power
+    const linearPower = Math.pow(10, frequencyData[i] / 10);
+    if (linearPower > 0) {
+      logSum += Math.log(linearPower + EPSILON_LOG_SAFE);
+      arithmeticSum += linearPower;
+      count++;
+    }
+  }
+
+  if (count === 0) return 1.0;
+
+  const geometricMean = Math.exp(logSum / count);
+  const arithmeticMean = arithmeticSum / count;
+
+  // Ratio of geometric to arithmetic mean: 0 (tonal) to 1 (noise-like)
+  if (arithmeticMean <= 0) return 1.0;
+  return Math.min(1.0, geometricMean / arithmeticMean);
+}
+
+/**
+ * Check if the detected fundamental frequency has harmonics present.
+ * Musical notes from stringed instruments have a clear harmonic series.
+ */
+export function checkHarmonicContent(
+  frequencyData: Float32Array,
+  fundamentalFreq: number,
+  sampleRate: number,
+  maxFrequency: number
+): boolean {
+  if (fundamentalFreq <= 0) return false;
+
+  const binWidth = sampleRate / (frequencyData.length * 2);
+  const fundamentalBin = Math.round(fundamentalFreq / binWidth);
+
+  if (fundamentalBin >= frequencyData.length) return false;
+  const fundamentalPower = frequencyData[fundamentalBin];
+
+  // Check for the 2nd and 3rd harmonics (most prominent in stringed instruments)
+  let harmonicsFound = 0;
+  for (const harmonic of [2, 3]) {
+    const harmonicFreq = fundamentalFreq * harmonic;
+    if (harmonicFreq > maxFrequency * 2) continue; // Allow harmonics above instrument range
+
+    const harmonicBin = Math.round(harmonicFreq / binWidth);
+    if (harmonicBin >= frequencyData.length) continue;
+
+    // Allow some tolerance in frequency (bins around the expected harmonic)
+    let maxHarmonicPower = -Infinity;
+    const searchRange = Math.max(1, Math.round(harmonicBin * HARMONIC_TOLERANCE));
+    for (
+      let b = Math.max(0, harmonicBin - searchRange);
+      b <= Math.min(frequencyData.length - 1, harmonicBin + searchRange);
+      b++
+    ) {
+      if (frequencyData[b] > maxHarmonicPower) {
+        maxHarmonicPower = frequencyData[b];
+      }
+    }
+
+    if (maxHarmonicPower > fundamentalPower - HARMONIC_POWER_THRESHOLD_DB) {
+      harmonicsFound++;
+    }
+  }
+
+  // Require at least one harmonic to confirm it's a musical note
+  return harmonicsFound >= 1;
+}
+
+/**
+ * Spectral flux: summed rise in compressed magnitude between two spectra.
+ * Spikes when a string is (re-)plucked, even while it is still ringing.
+ */
+export function calculateSpectralFlux(
+  frequencyData: Float32Array,
+  previousFrequencyData: Float32Array,
+  sampleRate: number,
+  minFrequency: number,
+  maxFrequency: number
+): number {
+  const binWidth = sampleRate / (frequencyData.length * 2);
+  const minBin = Math.max(0, Math.floor(minFrequency / binWidth));
+  const maxBin = Math.min(
+    Math.ceil(maxFrequency / binWidth),
+    frequencyData.length - 1
+  );
+  if (maxBin <= minBin) return 0;
+
+  let flux = 0;
+  for (let i = minBin; i <= maxBin; i++) {
+    const current = Math.log1p(
+      FLUX_COMPRESSION * Math.pow(10, frequencyData[i] / 20)
+    );
+    const previous = Math.log1p(
+      FLUX_COMPRESSION * Math.pow(10, previousFrequencyData[i] / 20)
+    );
+    if (current > previous) flux += current - previous;
+  }
+  return flux / (maxBin - minBin + 1);
+}
+
+export interface SpectralPeak {
+  frequency: number;
+  power: number; // dB, as in the frequency data
+}
+
+/**
+ * Find clear spectral peaks within a range, strongest first.
+ * Peaks more than rangeDb below the strongest one are ignored.
+ */
+export function findSpectralPeaks(
+  frequencyData: Float32Array,
+  sampleRate: number,
+  minFrequency: number,
+  maxFrequency: number,
+  rangeDb: number
+): SpectralPeak[] {
+  const binWidth = sampleRate / (frequencyData.length * 2);
+  const minBin = Math.max(1, Math.floor(minFrequency / binWidth));
+  const maxBin = Math.min(
+    Math.ceil(maxFrequency / binWidth),
+    frequencyData.length - 2
+  );
+
+  let strongest = -Infinity;
+  for (let i = minBin; i <= maxBin; i++) {
+    if (frequencyData[i] > strongest) strongest = frequencyData[i];
+  }
+  if (!isFinite(strongest)) return [];
+
+  const floor = strongest - rangeDb;
+  const peaks: SpectralPeak[] = [];
+
+  for (let i = minBin; i <= maxBin; i++) {
+    const power = frequencyData[i];
+    if (
+      power < floor ||
+      power <= frequencyData[i - 1] ||
+      power < frequencyData[i + 1]
+    ) {
+      continue;
+    }
+
+    // Parabolic interpolation on the dB values for sub-bin accuracy
+    const alpha = frequencyData[i - 1];
+    const gamma = frequencyData[i + 1];
+    const denominator = alpha - 2 * power + gamma;
+    const offset = denominator !== 0 ? (0.5 * (alpha - gamma)) / denominator : 0;
+    peaks.push({ frequency: (i + offset) * binWidth, power });
+  }
+
+  return peaks.sort((a, b) => b.power - a.power);
+}
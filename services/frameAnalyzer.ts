@@ -0,0 +1,204 @@
+import {
+  SpectrumAnalyzer,
+  calculateRms,
+  calculateSpectralFlatness,
+  calculateSpectralFlux,
+  calculateZeroCrossingRate,
+  checkHarmonicContent,
+  findSpectralPeaks,
+  SpectralPeak,
+} from "./dsp";
+import {
+  DEFAULT_PITCH_DETECTOR,
+  PitchDetector,
+  PitchDetectorId,
+  createPitchDetector,
+} from "./pitchDetectors";
+
+// Analysis window and hop shared by the worklet, fallback and benchmark
+export const ANALYSIS_FFT_SIZE = 8192; // Large FFT for excellent low frequency resolution
+export const ANALYSIS_HOP_SIZE = 1024; // A frame every ~21ms at 48kHz
+
+// Peaks within this many dB of the strongest one are reported
+const PEAK_RANGE_DB = 30;
+// Upper bound on the spectral peaks reported per frame
+const MAX_PEAKS = 12;
+// Samples used for autocorrelation, zero-crossing and onset analysis.
+// Onsets need a short window: in the full 8192-sample window a new pluck
+// sits under the tapered edge and only shows up ~80ms later.
+const PITCH_WINDOW_SIZE = 2048;
+// Flux also looks at the lower harmonics, which brighten on a fresh pluck
+const ONSET_HARMONIC_SPAN = 4;
+
+/**
+ * Signal features extracted from one analysis window.
+ * Contains no note decisions - those depend on user thresholds
+ * and are made by the AudioEngine on the main thread.
+ */
+export interface FrameFeatures {
+  rms: number;
+  zcr: number;
+  spectralFlatness: number;
+  frequency: number;
+  clarity: number;
+  hasHarmonics: boolean;
+  peaks: SpectralPeak[]; // Strongest first
+  spectralFlux: number; // Rise in spectral energy since the previous frame
+}
+
+/** Features stamped with the time of the newest analysed sample (seconds) */
+export interface AnalysisFrame extends FrameFeatures {
+  time: number;
+}
+
+// Protocol between the AudioEngine and the pitch AudioWorkletProcessor.
+// Kept here so the main thread never imports the worklet module itself.
+export const PITCH_PROCESSOR_NAME = "lyre-pitch-processor";
+
+export interface PitchProcessorOptions {
+  fftSize: number;
+  hopSize: number; // Samples between two analysis frames
+  minFrequency: number;
+  maxFrequency: number;
+  detector: PitchDetectorId;
+}
+
+/** Sent from the processor every hopSize samples, timed on the audio clock */
+export interface PitchFrameMessage extends AnalysisFrame {
+  type: "frame";
+}
+
+/** Sent from the AudioEngine to retarget the analysis range */
+export interface PitchRangeMessage {
+  type: "range";
+  minFrequency: number;
+  maxFrequency: number;
+}
+
+/** Sent from the AudioEngine to switch pitch detection algorithm */
+export interface PitchDetectorMessage {
+  type: "detector";
+  detector: PitchDetectorId;
+}
+
+export type PitchProcessorCommand = PitchRangeMessage | PitchDetectorMessage;
+
+export interface FrameAnalyzerOptions {
+  sampleRate: number;
+  fftSize: number;
+  minFrequency: number;
+  maxFrequency: number;
+  detector?: PitchDetectorId;
+}
+
+/**
+ * Runs the full feature extraction for a window of samples.
+ * All scratch buffers are allocated once, so analyze() is allocation-light
+ * and safe to call on the audio rendering thread.
+ */
+export class FrameAnalyzer {
+  private readonly sampleRate: number;
+  private minFrequency: number;
+  private maxFrequency: number;
+  private spectrum: SpectrumAnalyzer;
+  private frequencyBuffer: Float32Array;
+  private detector: PitchDetector;
+  private onsetSpectrum: SpectrumAnalyzer;
+  private onsetBuffer: Float32Array;
+  private previousOnsetBuffer: Float32Array;
+
+  constructor(options: FrameAnalyzerOptions) {
+    this.sampleRate = options.sampleRate;
+    this.minFrequency = options.minFrequency;
+    this.maxFrequency = options.maxFrequency;
+    this.spectrum = new SpectrumAnalyzer(options.fftSize);
+    this.frequencyBuffer = new Float32Array(options.fftSize / 2);
+    this.onsetSpectrum = new SpectrumAnalyzer(PITCH_WINDOW_SIZE);
+    this.onsetBuffer = new Float32Array(PITCH_WINDOW_SIZE / 2);
+    this.previousOnsetBuffer = new Float32Array(PITCH_WINDOW_SIZE / 2).fill(
+      -Infinity
+    );
+    this.detector = this.buildDetector(
+      options.detector ?? DEFAULT_PITCH_DETECTOR
+    );
+  }
+
+  setFrequencyRange(minFrequency: number, maxFrequency: number): void {
+    this.minFrequency = minFrequency;
+    this.maxFrequency = maxFrequency;
+  }
+
+  setDetector(id: PitchDetectorId): void {
+    if (id !== this.detector.id) {
+      this.detector = this.buildDetector(id);
+    }
+  }
+
+  private buildDetector(id: PitchDetectorId): PitchDetector {
+    return createPitchDetector(
+      id,
+      PITCH_WINDOW_SIZE,
+      this.frequencyBuffer.length
+    );
+  }
+
+  /**
+   * Analyze a window of samples, oldest first.
+   * Pitch is measured on the newest samples to keep latency low,
+   * the spectrum uses the whole window for frequency resolution.
+   */
+  analyze(timeDomain: Float32Array): FrameFeatures {
+    const pitchWindow = timeDomain.subarray(
+      Math.max(0, timeDomain.length - PITCH_WINDOW_SIZE)
+    );
+
+    this.spectrum.getFloatFrequencyData(timeDomain, this.frequencyBuffer);
+
+    // Swap onset spectra so the previous frame is kept without copying
+    const previousOnset = this.onsetBuffer;
+    this.onsetBuffer = this.previousOnsetBuffer;
+    this.previousOnsetBuffer = previousOnset;
+    this.onsetSpectrum.getFloatFrequencyData(pitchWindow, this.onsetBuffer);
+
+    const pitch = this.detector.detect({
+      timeDomain: pitchWindow,
+      frequencyData: this.frequencyBuffer,
+      sampleRate: this.sampleRate,
+      minFrequency: this.minFrequency,
+      maxFrequency: this.maxFrequency,
+    });
+
+    return {
+      rms: calculateRms(timeDomain),
+      zcr: calculateZeroCrossingRate(pitchWindow),
+      spectralFlatness: calculateSpectralFlatness(
+        this.frequencyBuffer,
+        this.sampleRate,
+        this.minFrequency,
+        this.maxFrequency
+      ),
+      frequency: pitch.frequency,
+      clarity: pitch.clarity,
+      hasHarmonics: checkHarmonicContent(
+        this.frequencyBuffer,
+        pitch.frequency,
+        this.sampleRate,
+        this.maxFrequency
+      ),
+      peaks: findSpectralPeaks(
+        this.frequencyBuffer,
+        this.sampleRate,
+        this.minFrequency,
+        this.maxFrequency,
+        PEAK_RANGE_DB
+      ).slice(0, MAX_PEAKS),
+      spectralFlux: calculateSpectralFlux(
+        this.onsetBuffer,
+        this.previousOnsetBuffer,
+        this.sampleRate,
+        this.minFrequency,
+        this.maxFrequency * ONSET_HARMONIC_SPAN
+      ),
+    };
+  }
+}
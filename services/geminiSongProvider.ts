@@ -0,0 +1,63 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { NOTE_DURATIONS } from "./songValidation";
+import { SongProvider, SongRequest, buildSongPrompt } from "./songGeneration";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// Shape of the JSON the model has to return; values are validated later
+const SONG_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
+    bpm: { type: Type.INTEGER },
+    timeSignature: {
+      type: Type.OBJECT,
+      properties: {
+        beats: { type: Type.INTEGER },
+        beatUnit: { type: Type.INTEGER },
+      },
+      required: ["beats", "beatUnit"],
+    },
+    anacrusis: { type: Type.NUMBER },
+    notes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          note: { type: Type.STRING },
+          bassNote: { type: Type.STRING },
+          lyric: { type: Type.STRING },
+          duration: { type: Type.STRING, enum: NOTE_DURATIONS },
+        },
+        required: ["note", "duration"],
+      },
+    },
+  },
+  required: ["title", "difficulty", "bpm", "timeSignature", "notes"],
+};
+
+/**
+ * Songs written by Gemini, constrained to JSON with SONG_SCHEMA
+ */
+export class GeminiSongProvider implements SongProvider {
+  readonly id = "gemini";
+  readonly name = "Gemini";
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = DEFAULT_MODEL) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async generateSong(request: SongRequest): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model: this.model,
+      contents: buildSongPrompt(request),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: SONG_SCHEMA,
+      },
+    });
+    return response.text ?? "";
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  DEFAULT_INSTRUMENT_ID,
+  INSTRUMENT_PROFILES,
+  TUNING_PRESETS,
+} from "../constants";
+import { InstrumentProfile, InstrumentSetup, Song, Tuning } from "../types";
+import {
+  formatPitch,
+  getStaffStep,
+  midiToPitch,
+  noteNameToMidi,
+  parsePitch,
+  pitchToMidi,
+  tryParsePitch,
+} from "./pitch";
+
+const STORAGE_KEY = "lyrehero-instrument";
+const SETUP_STORAGE_KEY = "lyrehero-instrument-setup";
+
+export const getInstrumentProfile = (id: string): InstrumentProfile =>
+  INSTRUMENT_PROFILES.find((profile) => profile.id === id) ??
+  INSTRUMENT_PROFILES.find((profile) => profile.id === DEFAULT_INSTRUMENT_ID)!;
+
+export const getTuning = (id: string): Tuning =>
+  TUNING_PRESETS.find((tuning) => tuning.id === id) ?? TUNING_PRESETS[0];
+
+/**
+ * The instrument chosen in the menu, or the 19-string lyre on first start
+ */
+export const loadInstrument = (): InstrumentProfile => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return getInstrumentProfile(saved);
+  } catch (e) {
+    console.warn("Failed to load instrument from localStorage:", e);
+  }
+  return getInstrumentProfile(DEFAULT_INSTRUMENT_ID);
+};
+
+export const saveInstrument = (profile: InstrumentProfile): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, profile.id);
+  } catch (e) {
+    console.warn("Failed to save instrument to localStorage:", e);
+  }
+};
+
+export const getDefaultSetup = (profile: InstrumentProfile): InstrumentSetup => ({
+  tuningId: profile.defaultTuning,
+  levers: [],
+});
+
+const loadAllSetups = (): Record<string, InstrumentSetup> => {
+  try {
+    const saved = localStorage.getItem(SETUP_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.warn("Failed to load instrument setup from localStorage:", e);
+  }
+  return {};
+};
+
+/**
+ * Tuning and lever state last used on this instrument
+ */
+export const loadInstrumentSetup = (
+  profile: InstrumentProfile
+): InstrumentSetup => {
+  const saved = loadAllSetups()[profile.id];
+  if (!saved) return getDefaultSetup(profile);
+  return {
+    tuningId: getTuning(saved.tuningId).id,
+    levers: Array.isArray(saved.levers)
+      ? saved.levers.filter((note) => profile.strings.includes(note))
+      : [],
+  };
+};
+
+export const saveInstrumentSetup = (
+  profile: InstrumentProfile,
+  setup: InstrumentSetup
+): void => {
+  try {
+    const setups = loadAllSetups();
+    setups[profile.id] = setup;
+    localStorage.setItem(SETUP_STORAGE_KEY, JSON.stringify(setups));
+  } catch (e) {
+    console.warn("Failed to save instrument setup to localStorage:", e);
+  }
+};
+
+/**
+ * Pitch each string sounds with the given tuning and levers, lowest first.
+ * Both raise a string by a semitone, e.g. F4 -> F#4, or E4 -> F4.
+ */
+export const getTunedStrings = (
+  profile: InstrumentProfile,
+  setup: InstrumentSetup
+): string[] => {
+  const { sharps } = getTuning(setup.tuningId);
+  return profile.strings.map((note) => {
+    const pitch = parsePitch(note);
+    const raised =
+      (sharps.includes(pitch.letter) ? 1 : 0) +
+      (setup.levers.includes(note) ? 1 : 0);
+    return formatPitch(midiToPitch(pitchToMidi(pitch) + raised));
+  });
+};
+
+/**
+ * Notes of the song (melody and bass) that no string produces,
+ * in order of first appearance. Enharmonic spellings count as equal;
+ * invalid note names are always reported.
+ */
+export const getOutOfRangeNotes = (
+  song: Song,
+  tunedStrings: readonly string[]
+): string[] => {
+  const available = new Set(tunedStrings.map((note) => noteNameToMidi(note)));
+  const missing: string[] = [];
+  for (const step of song.notes) {
+    for (const note of [step.note, step.bassNote]) {
+      if (!note || missing.includes(note)) continue;
+      const pitch = tryParsePitch(note);
+      if (!pitch || !available.has(pitchToMidi(pitch))) {
+        missing.push(note);
+      }
+    }
+  }
+  return missing;
+};
+
+/**
+ * Why a note can't be played on the lyre as set up, or null when a
+ * string sounds it:
+ * - "invalid": not a note name
+ * - "accidental": within the range, but no string is tuned to this
+ *   sharp/flat/natural (needs another tuning or a lever)
+ * - "outOfRange": below the lowest or above the highest string
+ */
+export type NoteRangeIssue = "invalid" | "accidental" | "outOfRange";
+
+export const getNoteRangeIssue = (
+  note: string,
+  profile: InstrumentProfile,
+  tunedStrings: readonly string[]
+): NoteRangeIssue | null => {
+  const pitch = tryParsePitch(note);
+  if (!pitch) return "invalid";
+  const midi = pitchToMidi(pitch);
+  if (tunedStrings.some((string) => noteNameToMidi(string) === midi)) {
+    return null;
+  }
+  const step = getStaffStep(pitch);
+  const isInRange =
+    step >= getStaffStep(parsePitch(profile.lowestNote)) &&
+    step <= getStaffStep(parsePitch(profile.highestNote));
+  return isInRange ? "accidental" : "outOfRange";
+};
@@ -0,0 +1,103 @@
+// Karplus-Strong plucked-string synthesis. Pure sample generation, usable
+// both for playback in the browser and for offline benchmark fixtures.
+
+export interface PluckOptions {
+  duration: number; // Seconds of audio to render
+  sustain?: number; // Seconds for the string to decay by 60 dB
+  brightness?: number; // 0 (dull, felt-like) to 1 (bright, nail-like) excitation
+  amplitude?: number; // Peak level of the excitation
+  seed?: number; // Makes the excitation noise reproducible
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so renders are reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Render a single plucked string.
+ * A first-order allpass supplies the fractional part of the loop delay,
+ * so high strings stay in tune even though the delay line is short.
+ */
+export function renderPluck(
+  frequency: number,
+  sampleRate: number,
+  {
+    duration,
+    sustain = 2,
+    brightness = 0.5,
+    amplitude = 0.5,
+    seed = 1,
+  }: PluckOptions
+): Float32Array {
+  const output = new Float32Array(Math.max(0, Math.round(duration * sampleRate)));
+  if (frequency <= 0 || output.length === 0) return output;
+
+  // Loop delay = delay line + 0.5 sample (averaging filter) + allpass delay
+  const period = sampleRate / frequency;
+  const delayLength = Math.max(2, Math.floor(period - 0.5 - 0.001));
+  const fraction = period - 0.5 - delayLength;
+  const allpassCoefficient = (1 - fraction) / (1 + fraction);
+
+  // Per-sample loss so the string decays 60 dB over `sustain` seconds
+  const loss = Math.pow(10, -3 / (sustain * frequency));
+
+  // Excitation: low-passed noise burst with the DC offset removed
+  const random = createRandom(seed);
+  const line = new Float32Array(delayLength);
+  const smoothing = 1 - Math.max(0.05, Math.min(1, brightness));
+  let previous = 0;
+  let mean = 0;
+  for (let i = 0; i < delayLength; i++) {
+    previous = (random() * 2 - 1) * (1 - smoothing) + previous * smoothing;
+    line[i] = previous;
+    mean += previous;
+  }
+  mean /= delayLength;
+  let peak = 0;
+  for (let i = 0; i < delayLength; i++) {
+    line[i] -= mean;
+    peak = Math.max(peak, Math.abs(line[i]));
+  }
+  const scale = peak > 0 ? amplitude / peak : 0;
+  for (let i = 0; i < delayLength; i++) line[i] *= scale;
+
+  let index = 0;
+  let lastSample = 0;
+  let allpassInput = 0;
+  let allpassOutput = 0;
+  for (let n = 0; n < output.length; n++) {
+    const current = line[index];
+    output[n] = current;
+
+    const filtered = loss * 0.5 * (current + lastSample);
+    lastSample = current;
+
+    const tuned =
+      allpassCoefficient * filtered +
+      allpassInput -
+      allpassCoefficient * allpassOutput;
+    allpassInput = filtered;
+    allpassOutput = tuned;
+
+    line[index] = tuned;
+    index = (index + 1) % delayLength;
+  }
+
+  // Short fade-out to avoid a click at the end of the buffer
+  const fade = Math.min(output.length, Math.round(sampleRate * 0.01));
+  for (let i = 0; i < fade; i++) {
+    output[output.length - 1 - i] *= i / fade;
+  }
+
+  return output;
+}
@@ -0,0 +1,209 @@
+import { DEFAULT_REFERENCE_PITCH, NOTE_FREQUENCIES } from "../constants";
+import { Note, Song } from "../types";
+import { renderPluck } from "./karplusStrong";
+import { normalizeNoteName, parsePitch, pitchToFrequency } from "./pitch";
+import { getNoteLength, getSongTiming } from "./timing";
+
+// A note ends with a short damped tail instead of a hard cut
+const RELEASE_SECONDS = 0.25;
+// Lyre strings ring long; notes are damped at the end of their duration
+const PLUCK_SUSTAIN = 2.5;
+const PLUCK_BRIGHTNESS = 0.45;
+const PLUCK_AMPLITUDE = 0.35;
+// Bass strings are felt-like and a little quieter under the melody
+const BASS_BRIGHTNESS = 0.3;
+const BASS_AMPLITUDE = 0.25;
+
+// Phrases without a long note are cut after this many notes
+const MAX_PHRASE_NOTES = 8;
+
+/**
+ * Notes of the phrase that contains the given note, as [start, end)
+ * Songs have no phrase marks, so a phrase ends on a half or whole note,
+ * or after MAX_PHRASE_NOTES notes.
+ */
+export const getPhraseRange = (
+  notes: readonly Note[],
+  index: number
+): { start: number; end: number } => {
+  let start = 0;
+  for (let i = 0; i < notes.length; i++) {
+    const isLast =
+      getNoteLength(notes[i]) >= 1 / 2 ||
+      i - start + 1 >= MAX_PHRASE_NOTES ||
+      i === notes.length - 1;
+    if (!isLast) continue;
+    if (index <= i) return { start, end: i + 1 };
+    start = i + 1;
+  }
+  return { start, end: notes.length };
+};
+
+/**
+ * Frequency of a note name at the given A4, e.g. "F#4" or "Bb3"
+ * @throws InvalidPitchError
+ */
+export const getNoteFrequency = (
+  note: string,
+  referencePitch: number = DEFAULT_REFERENCE_PITCH
+): number => {
+  const standard = NOTE_FREQUENCIES[normalizeNoteName(note)];
+  if (standard !== undefined) {
+    return (standard * referencePitch) / DEFAULT_REFERENCE_PITCH;
+  }
+  return pitchToFrequency(parsePitch(note), referencePitch);
+};
+
+export interface PlaybackOptions {
+  start?: number; // First note to play
+  end?: number; // Note to stop before, defaults to the end of the song
+  referencePitch?: number;
+  tempoScale?: number; // 1 = the song's tempo, 0.5 = half speed
+  withBass?: boolean; // Also play bassNote where the song has one
+  onNote?: (index: number) => void; // Called with the song index as each note starts
+  onEnd?: () => void; // Called after the last note, not after stop()
+}
+
+/**
+ * Plays lyre notes through an AudioContext, rendered with Karplus-Strong.
+ * Share the context with the AudioEngine so both use one audio clock.
+ */
+export class LyreSynth {
+  readonly context: AudioContext;
+  private output: GainNode;
+  private sources = new Set<AudioBufferSourceNode>();
+  private timers: number[] = [];
+  // Rendered plucks by frequency, length and voice
+  private buffers = new Map<string, AudioBuffer>();
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.connect(context.destination);
+  }
+
+  /**
+   * Pluck a single note
+   * @param when Audio clock time to start, defaults to now
+   * @param duration Seconds until the string is damped
+   * @throws InvalidPitchError
+   */
+  playNote(
+    note: string,
+    when: number = this.context.currentTime,
+    duration: number = 1,
+    referencePitch: number = DEFAULT_REFERENCE_PITCH,
+    isBass: boolean = false
+  ): void {
+    const frequency = getNoteFrequency(note, referencePitch);
+    const source = this.context.createBufferSource();
+    source.buffer = this.getBuffer(frequency, duration + RELEASE_SECONDS, isBass);
+
+    // Damp the string once its duration is over
+    const damper = this.context.createGain();
+    damper.gain.setValueAtTime(1, when + duration);
+    damper.gain.linearRampToValueAtTime(0, when + duration + RELEASE_SECONDS);
+    source.connect(damper);
+    damper.connect(this.output);
+
+    source.onended = () => {
+      source.disconnect();
+      damper.disconnect();
+      this.sources.delete(source);
+    };
+    this.sources.add(source);
+    source.start(when);
+  }
+
+  /**
+   * Play a song, or part of it, at its tempo with every note held for its
+   * written duration. Replaces any playback that is still running.
+   * @throws InvalidPitchError
+   */
+  async play(song: Song, options: PlaybackOptions = {}): Promise<void> {
+    const {
+      start = 0,
+      end = song.notes.length,
+      referencePitch = DEFAULT_REFERENCE_PITCH,
+      tempoScale = 1,
+      withBass = true,
+      onNote,
+      onEnd,
+    } = options;
+
+    this.stop();
+    if (this.context.state === "suspended") {
+      await this.context.resume();
+    }
+
+    const timing = getSongTiming(song).notes.slice(start, end);
+    if (timing.length === 0) return;
+
+    const toSeconds = (ms: number) => ms / 1000 / tempoScale;
+    // Small lead so the first note is not scheduled in the past
+    const offset = this.context.currentTime + 0.1 - toSeconds(timing[0].startMs);
+    let endTime = offset;
+
+    for (const timed of timing) {
+      const note = song.notes[timed.index];
+      const time = offset + toSeconds(timed.startMs);
+      const duration = toSeconds(timed.durationMs);
+      this.playNote(note.note, time, duration, referencePitch);
+      if (withBass && note.bassNote) {
+        this.playNote(note.bassNote, time, duration, referencePitch, true);
+      }
+      if (onNote) this.schedule(time, () => onNote(timed.index));
+      endTime = time + duration;
+    }
+
+    if (onEnd) this.schedule(endTime + RELEASE_SECONDS, onEnd);
+  }
+
+  /**
+   * Silence everything and cancel pending callbacks
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+    // Each source disconnects itself in onended
+    this.sources.forEach((source) => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.sources.clear();
+  }
+
+  /**
+   * Run a callback when the audio clock reaches the given time
+   */
+  private schedule(time: number, callback: () => void): void {
+    const delay = Math.max(0, (time - this.context.currentTime) * 1000);
+    this.timers.push(window.setTimeout(callback, delay));
+  }
+
+  private getBuffer(
+    frequency: number,
+    duration: number,
+    isBass: boolean
+  ): AudioBuffer {
+    const key = `${frequency.toFixed(2)}:${duration.toFixed(3)}:${isBass}`;
+    const cached = this.buffers.get(key);
+    if (cached) return cached;
+
+    const { sampleRate } = this.context;
+    const samples = renderPluck(frequency, sampleRate, {
+      duration,
+      sustain: PLUCK_SUSTAIN,
+      brightness: isBass ? BASS_BRIGHTNESS : PLUCK_BRIGHTNESS,
+      amplitude: isBass ? BASS_AMPLITUDE : PLUCK_AMPLITUDE,
+      seed: Math.round(frequency),
+    });
+    const buffer = this.context.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    this.buffers.set(key, buffer);
+    return buffer;
+  }
+}
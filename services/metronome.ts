@@ -0,0 +1,167 @@
+import { SongTiming, getTimeAtBeat } from "./timing";
+
+// Clicks are short sine bursts far above the engine's input low-pass
+// (~1.5 kHz for the largest lyre), so the microphone picking them up
+// doesn't register as a note or a pluck. Lower clicks (4-6 kHz) still got
+// through as harmonics of the top strings.
+const CLICK_HZ = 7000;
+const ACCENT_CLICK_HZ = 8500;
+const CLICK_GAIN = 0.25;
+const ACCENT_CLICK_GAIN = 0.45;
+const CLICK_ATTACK_SECONDS = 0.002; // Soft attack keeps the burst narrow-band
+const CLICK_DECAY_SECONDS = 0.04;
+
+// Look-ahead scheduling: wake up every SCHEDULER_INTERVAL_MS and queue the
+// clicks of the next SCHEDULE_AHEAD_SECONDS on the audio clock
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+
+export const COUNT_IN_BAR_OPTIONS = [1, 2] as const;
+
+export interface MetronomeClick {
+  time: number; // Audio clock seconds
+  beat: number; // Song beat, negative during the count-in
+  beatInBar: number; // 0 on the downbeat
+  isAccent: boolean;
+  isCountIn: boolean;
+}
+
+export interface SongClickOptions {
+  startTime: number; // Audio clock time of the song's first note
+  tempoScale?: number; // 1 = the song's tempo
+  countInBars?: number;
+  withSong?: boolean; // Keep clicking after the count-in
+}
+
+/**
+ * Song beat where the count-in starts: whole bars before the first full
+ * bar, counting through the rest of a pickup bar
+ */
+export const getCountInStartBeat = (
+  timing: SongTiming,
+  countInBars: number
+): number => {
+  const { beats } = timing.timeSignature;
+  const bars = countInBars + (timing.anacrusis > 0 ? 1 : 0);
+  return timing.anacrusis - bars * beats;
+};
+
+/**
+ * Clicks for a song: the count-in, then (optionally) every beat of the
+ * song, accented on each downbeat and following its tempo changes
+ */
+export function* getSongClicks(
+  timing: SongTiming,
+  {
+    startTime,
+    tempoScale = 1,
+    countInBars = 1,
+    withSong = true,
+  }: SongClickOptions
+): Generator<MetronomeClick> {
+  const { beats } = timing.timeSignature;
+  const firstBeat = getCountInStartBeat(timing, countInBars);
+  const lastBeat = withSong ? timing.totalBeats : 0;
+
+  for (let beat = firstBeat; beat < lastBeat; beat++) {
+    const beatInBar = (((beat - timing.anacrusis) % beats) + beats) % beats;
+    yield {
+      time: startTime + getTimeAtBeat(timing, beat) / 1000 / tempoScale,
+      beat,
+      beatInBar,
+      isAccent: beatInBar === 0,
+      isCountIn: beat < 0,
+    };
+  }
+}
+
+/**
+ * Accented clicks on the audio clock. Clicks are scheduled slightly ahead
+ * so timer jitter on the main thread doesn't make them uneven.
+ */
+export class Metronome {
+  readonly context: AudioContext;
+  private output: GainNode;
+  private clicks: Iterator<MetronomeClick> | null = null;
+  private next: MetronomeClick | null = null;
+  private timer: number | null = null;
+  private pulseTimers: number[] = [];
+
+  // Called as each click sounds, e.g. to pulse a beat indicator
+  onClick: ((click: MetronomeClick) => void) | null = null;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.connect(context.destination);
+  }
+
+  /**
+   * Play the given clicks, replacing any that are still queued
+   */
+  start(clicks: Iterable<MetronomeClick>): void {
+    this.stop();
+    this.clicks = clicks[Symbol.iterator]();
+    this.next = this.clicks.next().value ?? null;
+    this.schedule();
+    this.timer = window.setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.pulseTimers.forEach((timer) => clearTimeout(timer));
+    this.pulseTimers = [];
+    this.clicks = null;
+    this.next = null;
+  }
+
+  private schedule(): void {
+    const horizon = this.context.currentTime + SCHEDULE_AHEAD_SECONDS;
+    while (this.next && this.next.time < horizon) {
+      const click = this.next;
+      // Clicks that fell behind (e.g. a background tab) are skipped
+      if (click.time >= this.context.currentTime) this.playClick(click);
+      this.next = this.clicks?.next().value ?? null;
+    }
+    if (!this.next && this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private playClick(click: MetronomeClick): void {
+    const oscillator = this.context.createOscillator();
+    oscillator.type = "sine";
+    oscillator.frequency.value = click.isAccent ? ACCENT_CLICK_HZ : CLICK_HZ;
+
+    const envelope = this.context.createGain();
+    const peak = click.isAccent ? ACCENT_CLICK_GAIN : CLICK_GAIN;
+    envelope.gain.setValueAtTime(0, click.time);
+    envelope.gain.linearRampToValueAtTime(peak, click.time + CLICK_ATTACK_SECONDS);
+    envelope.gain.exponentialRampToValueAtTime(
+      0.001,
+      click.time + CLICK_ATTACK_SECONDS + CLICK_DECAY_SECONDS
+    );
+
+    oscillator.connect(envelope);
+    envelope.connect(this.output);
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      envelope.disconnect();
+    };
+    oscillator.start(click.time);
+    oscillator.stop(click.time + CLICK_ATTACK_SECONDS + CLICK_DECAY_SECONDS);
+
+    if (this.onClick) {
+      const delay = Math.max(0, (click.time - this.context.currentTime) * 1000);
+      const timer = window.setTimeout(() => {
+        this.pulseTimers = this.pulseTimers.filter((id) => id !== timer);
+        this.onClick?.(click);
+      }, delay);
+      this.pulseTimers.push(timer);
+    }
+  }
+}
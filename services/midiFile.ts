@@ -0,0 +1,443 @@
+import { Song, TimeSignature } from "../types";
+import { formatPitch, midiToPitch } from "./pitch";
+import {
+  ImportedNote,
+  ImportedSong,
+  ImportedTempo,
+  buildSteps,
+  estimateDifficulty,
+  getImportedTiming,
+} from "./songImport";
+
+export class MidiFileError extends Error {
+  constructor(reason: string) {
+    super(`Can't read this MIDI file: ${reason}`);
+    this.name = "MidiFileError";
+  }
+}
+
+// General MIDI channel 10 (9 counting from 0) plays drums, not pitches
+const PERCUSSION_CHANNEL = 9;
+// Onsets snap to eighth notes, the shortest written duration
+const QUANTIZE_QUARTERS = 0.5;
+// Onsets moved by less than this (in quarter notes) aren't reported
+const QUANTIZE_TOLERANCE = 1 / 32;
+// Keys that have a note name (C0-G9); MIDI also allows C-1 to B-1
+const LOWEST_KEY = 12;
+const HIGHEST_KEY = 127;
+
+/**
+ * A note with its MIDI key number, which orders notes without parsing
+ */
+export interface MidiNote extends ImportedNote {
+  key: number;
+}
+
+/**
+ * Notes of one channel of one track, e.g. a piano's right hand
+ */
+export interface MidiPart {
+  id: string; // "track:channel"
+  name: string;
+  notes: MidiNote[]; // As played, before quantizing
+  lowest: string;
+  highest: string;
+}
+
+export interface MidiFile {
+  format: number;
+  title?: string;
+  parts: MidiPart[];
+  tempos: ImportedTempo[];
+  timeSignature?: TimeSignature;
+  lyrics: { time: number; text: string }[];
+  warnings: string[]; // About the whole file, e.g. skipped drums
+}
+
+/**
+ * Sequential reader over big-endian chunk data
+ */
+class ByteReader {
+  offset = 0;
+
+  constructor(private view: DataView) {}
+
+  get isDone(): boolean {
+    return this.offset >= this.view.byteLength;
+  }
+
+  byte(): number {
+    if (this.isDone) throw new MidiFileError("it ends in the middle of an event");
+    return this.view.getUint8(this.offset++);
+  }
+
+  // Variable-length quantity: 7 bits per byte, high bit set on all but the last
+  variableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.byte();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new MidiFileError("a length is too long");
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.view.byteLength) {
+      throw new MidiFileError("it ends in the middle of an event");
+    }
+    const bytes = new Uint8Array(
+      this.view.buffer,
+      this.view.byteOffset + this.offset,
+      length
+    );
+    this.offset += length;
+    return bytes;
+  }
+}
+
+const readChunkType = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    ...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i))
+  );
+
+// Text events are usually Latin-1 or ASCII
+const decodeText = (bytes: Uint8Array): string =>
+  String.fromCharCode(...bytes).replace(/\0/g, "").trim();
+
+interface ParsedTrack {
+  name?: string;
+  notes: (MidiNote & { channel: number })[];
+  unnamedKeys: number; // Notes outside C0-G9, left out
+  tempos: ImportedTempo[];
+  timeSignatures: (TimeSignature & { time: number })[];
+  lyrics: { time: number; text: string }[];
+}
+
+/**
+ * Events of one MTrk chunk, with notes paired up and timed in quarter notes
+ */
+const parseTrack = (reader: ByteReader, ticksPerQuarter: number): ParsedTrack => {
+  const track: ParsedTrack = {
+    notes: [],
+    unnamedKeys: 0,
+    tempos: [],
+    timeSignatures: [],
+    lyrics: [],
+  };
+  // Start ticks of sounding notes by channel and key, oldest first
+  const sounding = new Map<number, number[]>();
+  let tick = 0;
+  let runningStatus = 0;
+
+  const toQuarters = (ticks: number) => ticks / ticksPerQuarter;
+  const endNote = (channel: number, key: number) => {
+    const starts = sounding.get(channel * 128 + key);
+    const start = starts?.shift();
+    if (start === undefined) return;
+    if (key < LOWEST_KEY || key > HIGHEST_KEY) {
+      if (channel !== PERCUSSION_CHANNEL) track.unnamedKeys++;
+      return;
+    }
+    track.notes.push({
+      time: toQuarters(start),
+      duration: toQuarters(tick - start),
+      note: formatPitch(midiToPitch(key)),
+      key,
+      channel,
+    });
+  };
+
+  while (!reader.isDone) {
+    tick += reader.variableLength();
+    let status = reader.byte();
+    if (status < 0x80) {
+      // Running status: the data byte belongs to the previous event type
+      if (!runningStatus) throw new MidiFileError("an event has no status");
+      status = runningStatus;
+      reader.offset--;
+    }
+
+    if (status === 0xff) {
+      runningStatus = 0; // Meta and system events cancel running status
+      const type = reader.byte();
+      const data = reader.bytes(reader.variableLength());
+      if (type === 0x2f) break; // End of track
+      switch (type) {
+        case 0x03:
+          if (!track.name) track.name = decodeText(data) || undefined;
+          break;
+        case 0x05: {
+          const text = decodeText(data).replace(/^[\\/]+/, "");
+          if (text) track.lyrics.push({ time: toQuarters(tick), text });
+          break;
+        }
+        case 0x51:
+          if (data.length === 3) {
+            const microseconds = (data[0] << 16) | (data[1] << 8) | data[2];
+            if (microseconds > 0) {
+              track.tempos.push({ time: toQuarters(tick), bpm: 60_000_000 / microseconds });
+            }
+          }
+          break;
+        case 0x58:
+          if (data.length >= 2) {
+            track.timeSignatures.push({
+              time: toQuarters(tick),
+              beats: data[0],
+              beatUnit: 2 ** data[1],
+            });
+          }
+          break;
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      runningStatus = 0;
+      reader.bytes(reader.variableLength()); // System exclusive
+      continue;
+    }
+    if (status >= 0xf0) throw new MidiFileError("it has an unknown event");
+
+    runningStatus = status;
+    const channel = status & 0x0f;
+    const type = status & 0xf0;
+    const first = reader.byte();
+    const second = type === 0xc0 || type === 0xd0 ? 0 : reader.byte();
+    if (type === 0x90 && second > 0) {
+      const key = channel * 128 + first;
+      sounding.set(key, [...(sounding.get(key) ?? []), tick]);
+    } else if (type === 0x80 || type === 0x90) {
+      endNote(channel, first); // Note on with velocity 0 is a note off
+    }
+  }
+
+  // Notes still held at the end of the track stop there
+  for (const [key, starts] of sounding) {
+    while (starts.length > 0) endNote(Math.floor(key / 128), key % 128);
+  }
+  return track;
+};
+
+/**
+ * Read a Standard MIDI File (format 0 or 1) into parts to choose from
+ * @throws MidiFileError
+ */
+export const parseMidiFile = (buffer: ArrayBuffer): MidiFile => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 14 || readChunkType(view, 0) !== "MThd") {
+    throw new MidiFileError("it isn't a Standard MIDI File");
+  }
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const division = view.getUint16(12);
+  if (format > 1) {
+    throw new MidiFileError(`format ${format} files aren't supported`);
+  }
+  if (division & 0x8000) {
+    throw new MidiFileError("SMPTE timing isn't supported");
+  }
+  if (division === 0) throw new MidiFileError("it has no timing");
+
+  const tracks: ParsedTrack[] = [];
+  let offset = 8 + headerLength;
+  while (offset + 8 <= view.byteLength) {
+    const type = readChunkType(view, offset);
+    const length = view.getUint32(offset + 4);
+    const start = offset + 8;
+    offset = start + length;
+    if (type !== "MTrk") continue; // Unknown chunks are skipped
+    const chunk = new DataView(buffer, start, Math.min(length, view.byteLength - start));
+    tracks.push(parseTrack(new ByteReader(chunk), division));
+  }
+  if (tracks.length === 0) throw new MidiFileError("it has no tracks");
+
+  const warnings: string[] = [];
+  let drumNotes = 0;
+  const parts: MidiPart[] = [];
+  tracks.forEach((track, trackIndex) => {
+    drumNotes += track.notes.filter((note) => note.channel === PERCUSSION_CHANNEL).length;
+    const channels = [...new Set(track.notes.map((note) => note.channel))]
+      .filter((channel) => channel !== PERCUSSION_CHANNEL)
+      .sort((a, b) => a - b);
+    for (const channel of channels) {
+      const notes = track.notes.filter((note) => note.channel === channel);
+      const trackName = track.name ?? `Track ${trackIndex + 1}`;
+      const keys = notes.map((note) => note.key);
+      parts.push({
+        id: `${trackIndex}:${channel}`,
+        name: channels.length > 1 ? `${trackName}, channel ${channel + 1}` : trackName,
+        notes: notes
+          .map(({ time, duration, note, key }) => ({ time, duration, note, key }))
+          .sort((a, b) => a.time - b.time),
+        lowest: formatPitch(midiToPitch(Math.min(...keys))),
+        highest: formatPitch(midiToPitch(Math.max(...keys))),
+      });
+    }
+  });
+  if (parts.length === 0) throw new MidiFileError("it has no notes");
+  if (drumNotes > 0) warnings.push("Drum notes (channel 10) left out");
+  const unnamedKeys = tracks.reduce((sum, track) => sum + track.unnamedKeys, 0);
+  if (unnamedKeys > 0) {
+    warnings.push(
+      `${unnamedKeys} note${unnamedKeys === 1 ? "" : "s"} outside C0–G9 left out`
+    );
+  }
+
+  const timeSignatures = tracks
+    .flatMap((track) => track.timeSignatures)
+    .sort((a, b) => a.time - b.time);
+  const firstSignature = timeSignatures[0];
+  if (
+    timeSignatures.some(
+      (signature) =>
+        signature.beats !== firstSignature.beats ||
+        signature.beatUnit !== firstSignature.beatUnit
+    )
+  ) {
+    warnings.push("Time signature changes were ignored");
+  }
+
+  return {
+    format,
+    // The first track's name is the song's (the tempo track in format 1)
+    title: tracks[0].name,
+    parts,
+    tempos: tracks.flatMap((track) => track.tempos).sort((a, b) => a.time - b.time),
+    timeSignature: firstSignature
+      ? { beats: firstSignature.beats, beatUnit: firstSignature.beatUnit }
+      : undefined,
+    lyrics: tracks.flatMap((track) => track.lyrics).sort((a, b) => a.time - b.time),
+    warnings,
+  };
+};
+
+const averagePitch = (part: MidiPart): number =>
+  part.notes.reduce((sum, note) => sum + note.key, 0) /
+  part.notes.length;
+
+/**
+ * Likely melody and bass: the highest and lowest sounding parts
+ */
+export const getDefaultMidiParts = (
+  midi: MidiFile
+): { melodyId: string; bassId: string | null } => {
+  const byPitch = [...midi.parts].sort((a, b) => averagePitch(b) - averagePitch(a));
+  const bass = byPitch.length > 1 ? byPitch[byPitch.length - 1] : null;
+  return { melodyId: byPitch[0].id, bassId: bass?.id ?? null };
+};
+
+/**
+ * Snap onsets and ends to the eighth-note grid. Notes that would vanish
+ * keep an eighth note.
+ */
+const quantize = (notes: MidiNote[]): { notes: MidiNote[]; moved: number } => {
+  const snap = (time: number) => Math.round(time / QUANTIZE_QUARTERS) * QUANTIZE_QUARTERS;
+  let moved = 0;
+  const quantized = notes.map((note) => {
+    const time = snap(note.time);
+    if (Math.abs(time - note.time) > QUANTIZE_TOLERANCE) moved++;
+    const end = Math.max(snap(note.time + note.duration), time + QUANTIZE_QUARTERS);
+    return { ...note, time, duration: end - time };
+  });
+  return { notes: quantized, moved };
+};
+
+/**
+ * Drop notes that start while a higher note is held, leaving the line a
+ * listener hears on top. Notes starting together are left to buildSteps().
+ */
+const getTopVoice = (notes: MidiNote[]): { notes: MidiNote[]; dropped: number } => {
+  const kept: MidiNote[] = [];
+  for (const note of notes) {
+    const isUnderHeldNote = kept.some(
+      (held) =>
+        held.time < note.time &&
+        held.time + held.duration > note.time &&
+        held.key > note.key
+    );
+    if (!isUnderHeldNote) kept.push(note);
+  }
+  return { notes: kept, dropped: notes.length - kept.length };
+};
+
+/**
+ * A song from the chosen parts of a MIDI file: the melody collapsed to
+ * its top voice, the bass joined to melody onsets, all quantized to
+ * eighth notes
+ */
+export const buildMidiSong = (
+  midi: MidiFile,
+  melodyId: string,
+  bassId: string | null,
+  fallbackTitle: string = "Imported song"
+): ImportedSong => {
+  const melodyPart = midi.parts.find((part) => part.id === melodyId) ?? midi.parts[0];
+  const bassPart =
+    bassId && bassId !== melodyPart.id
+      ? midi.parts.find((part) => part.id === bassId)
+      : undefined;
+  const warnings = [...midi.warnings];
+
+  const quantizedMelody = quantize(melodyPart.notes);
+  const quantizedBass = quantize(bassPart?.notes ?? []);
+  const moved = quantizedMelody.moved + quantizedBass.moved;
+  if (moved > 0) {
+    warnings.push(`${moved} note${moved === 1 ? "" : "s"} moved to the nearest eighth note`);
+  }
+
+  const topVoice = getTopVoice(
+    [...quantizedMelody.notes].sort(
+      (a, b) => a.time - b.time || b.key - a.key
+    )
+  );
+  if (topVoice.dropped > 0) {
+    warnings.push(
+      `${topVoice.dropped} inner-voice note${topVoice.dropped === 1 ? "" : "s"} under held melody notes left out`
+    );
+  }
+
+  // Lyrics are events of their own; each goes to the melody note it starts with
+  const melody = topVoice.notes.map((note) => {
+    const lyric = midi.lyrics.find(
+      (entry) => Math.abs(entry.time - note.time) < QUANTIZE_QUARTERS / 2
+    );
+    return lyric ? { ...note, lyric: lyric.text } : note;
+  });
+
+  const { notes, times, warnings: stepWarnings } = buildSteps(melody, quantizedBass.notes);
+  warnings.push(...stepWarnings);
+
+  // A first note off the barline is taken as a pickup
+  const { timeSignature } = midi;
+  let pickupQuarters = 0;
+  if (timeSignature && times.length > 0) {
+    const barQuarters = (timeSignature.beats * 4) / timeSignature.beatUnit;
+    const offset = times[0] % barQuarters;
+    if (offset > QUANTIZE_TOLERANCE) pickupQuarters = barQuarters - offset;
+  }
+  const { timing, warnings: timingWarnings } = getImportedTiming(
+    times,
+    midi.tempos,
+    timeSignature,
+    pickupQuarters
+  );
+  warnings.push(...timingWarnings);
+
+  const song: Song = {
+    title: midi.title ?? fallbackTitle,
+    difficulty: estimateDifficulty(notes),
+    ...timing,
+    notes,
+  };
+  const source = bassPart
+    ? `${melodyPart.name} (melody) and ${bassPart.name} (bass)`
+    : melodyPart.name;
+  return { song, source, warnings };
+};
+
+/**
+ * Whether a file starts like a Standard MIDI File
+ */
+export const isMidiFile = (buffer: ArrayBuffer): boolean =>
+  buffer.byteLength >= 4 && readChunkType(new DataView(buffer), 0) === "MThd";
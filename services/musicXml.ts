@@ -0,0 +1,411 @@
+import { NoteLetter, Song, TimeSignature } from "../types";
+import { formatPitch, midiToPitch, pitchToMidi } from "./pitch";
+import {
+  ImportedNote,
+  ImportedSong,
+  ImportedTempo,
+  buildSteps,
+  estimateDifficulty,
+  getImportedTiming,
+} from "./songImport";
+
+export class MusicXmlError extends Error {
+  constructor(reason: string) {
+    super(`Can't read this MusicXML file: ${reason}`);
+    this.name = "MusicXmlError";
+  }
+}
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+// ZIP record signatures (little-endian)
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  headerOffset: number;
+}
+
+/**
+ * Files in a ZIP archive, read from its central directory
+ */
+const readZipEntries = (view: DataView): ZipEntry[] => {
+  // The end record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new MusicXmlError("the .mxl archive is damaged");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) {
+      throw new MusicXmlError("the .mxl archive is damaged");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(
+        new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)
+      ),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      headerOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const header = entry.headerOffset;
+  if (view.getUint32(header, true) !== ZIP_LOCAL_HEADER) {
+    throw new MusicXmlError("the .mxl archive is damaged");
+  }
+  const start =
+    header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === ZIP_STORED) return new TextDecoder().decode(data);
+  if (entry.method !== ZIP_DEFLATED) {
+    throw new MusicXmlError(`unsupported compression in ${entry.name}`);
+  }
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+};
+
+const readMxlArchive = async (buffer: ArrayBuffer): Promise<string> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const container = entries.find((entry) => entry.name === "META-INF/container.xml");
+  const rootPath = container
+    ? (await readZipText(view, container)).match(/full-path="([^"]+)"/)?.[1]
+    : undefined;
+  const root =
+    entries.find((entry) => entry.name === rootPath) ??
+    entries.find(
+      (entry) =>
+        !entry.name.startsWith("META-INF/") && /\.(musicxml|xml)$/i.test(entry.name)
+    );
+  if (!root) throw new MusicXmlError("the .mxl archive has no score");
+  return readZipText(view, root);
+};
+
+/**
+ * The score inside a compressed MusicXML (.mxl) archive: the root file
+ * named in META-INF/container.xml, or the first MusicXML file
+ */
+export const readMxl = async (buffer: ArrayBuffer): Promise<string> => {
+  try {
+    return await readMxlArchive(buffer);
+  } catch (e) {
+    // Offsets past the end (RangeError) or broken deflate data (TypeError)
+    if (e instanceof RangeError || e instanceof TypeError) {
+      throw new MusicXmlError("the .mxl archive is damaged");
+    }
+    throw e;
+  }
+};
+
+const getChildren = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter((child) => child.tagName === name);
+
+const getChild = (element: Element | undefined, name: string): Element | undefined =>
+  element ? getChildren(element, name)[0] : undefined;
+
+const getText = (element: Element | undefined, name: string): string | undefined =>
+  getChild(element, name)?.textContent?.trim() || undefined;
+
+const getNumber = (element: Element | undefined, name: string): number | undefined => {
+  const text = getText(element, name);
+  const value = text === undefined ? NaN : Number(text);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * A note's sounding pitch, spelled as written where it isn't transposed
+ */
+const readPitch = (note: Element, transpose: number): string | null => {
+  const pitch = getChild(note, "pitch");
+  const letter = getText(pitch, "step") as NoteLetter | undefined;
+  const octave = getNumber(pitch, "octave");
+  if (!letter || !LETTERS.includes(letter) || octave === undefined) return null;
+  const written = {
+    letter,
+    accidental: Math.round(getNumber(pitch, "alter") ?? 0),
+    octave,
+  };
+  return transpose === 0
+    ? formatPitch(written)
+    : formatPitch(midiToPitch(pitchToMidi(written) + transpose));
+};
+
+const readLyric = (note: Element): string | undefined => {
+  const lyrics = getChildren(note, "lyric");
+  const lyric =
+    lyrics.find((element) => (element.getAttribute("number") ?? "1") === "1") ??
+    lyrics[0];
+  if (!lyric) return undefined;
+  const text = getChildren(lyric, "text")
+    .map((element) => element.textContent ?? "")
+    .join(" ")
+    .trim();
+  const syllabic = getText(lyric, "syllabic");
+  // Hyphenate syllables that continue into the next note
+  return text && (syllabic === "begin" || syllabic === "middle") ? `${text}-` : text || undefined;
+};
+
+/**
+ * Quarter-note tempo of a <sound> or <direction>, if it sets one
+ */
+const readTempo = (element: Element): number | undefined => {
+  const sound = element.tagName === "sound" ? element : getChild(element, "sound");
+  const tempo = Number(sound?.getAttribute("tempo"));
+  if (Number.isFinite(tempo) && tempo > 0) return tempo;
+
+  const metronome = getChild(getChild(element, "direction-type"), "metronome");
+  const perMinute = getNumber(metronome, "per-minute");
+  if (!perMinute) return undefined;
+  const unitQuarters: Record<string, number> = { whole: 4, half: 2, quarter: 1, eighth: 0.5 };
+  const unit = unitQuarters[getText(metronome, "beat-unit") ?? "quarter"] ?? 1;
+  const dotted = getChild(metronome, "beat-unit-dot") ? 1.5 : 1;
+  return perMinute * unit * dotted;
+};
+
+const getFirstClef = (part: Element, staff: number): string | undefined => {
+  for (const measure of getChildren(part, "measure")) {
+    for (const attributes of getChildren(measure, "attributes")) {
+      const clef = getChildren(attributes, "clef").find(
+        (element) => Number(element.getAttribute("number") ?? "1") === staff
+      );
+      if (clef) return getText(clef, "sign");
+    }
+  }
+  return undefined;
+};
+
+interface PartNote extends ImportedNote {
+  staff: number;
+  voice: string;
+}
+
+interface ParsedPart {
+  notes: PartNote[];
+  staves: number;
+  timeSignature?: TimeSignature;
+  pickupQuarters: number; // Length of an incomplete first bar, 0 if none
+  tempos: ImportedTempo[];
+  warnings: string[];
+}
+
+/**
+ * Every pitched note of a part, timed in quarter notes
+ */
+const parsePart = (part: Element): ParsedPart => {
+  const notes: PartNote[] = [];
+  const tempos: ParsedPart["tempos"] = [];
+  const warnings: string[] = [];
+  let divisions = 1;
+  let staves = 1;
+  let transpose = 0;
+  let timeSignature: TimeSignature | undefined;
+  let pickupQuarters = 0;
+  let meterChanged = false;
+  let graceNotes = 0;
+
+  let measureStart = 0;
+  getChildren(part, "measure").forEach((measure, measureIndex) => {
+    let position = measureStart;
+    let measureEnd = measureStart;
+    let lastOnset = measureStart;
+
+    for (const element of Array.from(measure.children)) {
+      switch (element.tagName) {
+        case "attributes": {
+          divisions = getNumber(element, "divisions") ?? divisions;
+          staves = getNumber(element, "staves") ?? staves;
+          const transposeElement = getChild(element, "transpose");
+          if (transposeElement) {
+            transpose =
+              (getNumber(transposeElement, "chromatic") ?? 0) +
+              12 * (getNumber(transposeElement, "octave-change") ?? 0);
+          }
+          const time = getChild(element, "time");
+          const beats = getNumber(time, "beats");
+          const beatUnit = getNumber(time, "beat-type");
+          if (beats && beatUnit) {
+            if (!timeSignature) timeSignature = { beats, beatUnit };
+            else if (timeSignature.beats !== beats || timeSignature.beatUnit !== beatUnit) {
+              meterChanged = true;
+            }
+          }
+          break;
+        }
+        case "direction":
+        case "sound": {
+          const tempo = readTempo(element);
+          if (tempo) tempos.push({ time: position, bpm: tempo });
+          break;
+        }
+        case "backup":
+          position -= (getNumber(element, "duration") ?? 0) / divisions;
+          break;
+        case "forward":
+          position += (getNumber(element, "duration") ?? 0) / divisions;
+          break;
+        case "note": {
+          if (getChild(element, "grace")) {
+            graceNotes++;
+            break;
+          }
+          const duration = (getNumber(element, "duration") ?? 0) / divisions;
+          const time = getChild(element, "chord") ? lastOnset : position;
+          if (!getChild(element, "chord")) {
+            lastOnset = position;
+            position += duration;
+          }
+          // Rests and cue notes only take time; tied notes continue the previous one
+          const isTieStop = getChildren(element, "tie").some(
+            (tie) => tie.getAttribute("type") === "stop"
+          );
+          if (getChild(element, "rest") || getChild(element, "cue") || isTieStop) break;
+          const note = readPitch(element, transpose);
+          if (!note) break;
+          notes.push({
+            time,
+            duration,
+            note,
+            lyric: readLyric(element),
+            staff: getNumber(element, "staff") ?? 1,
+            voice: getText(element, "voice") ?? "1",
+          });
+          break;
+        }
+      }
+      measureEnd = Math.max(measureEnd, position);
+    }
+
+    if (measureIndex === 0 && timeSignature) {
+      const barQuarters = (timeSignature.beats * 4) / timeSignature.beatUnit;
+      const length = measureEnd - measureStart;
+      if (length > 0 && length < barQuarters) pickupQuarters = length;
+    }
+    measureStart = measureEnd;
+  });
+
+  if (meterChanged) warnings.push("Time signature changes were ignored");
+  if (graceNotes > 0) {
+    warnings.push(`${graceNotes} grace note${graceNotes === 1 ? "" : "s"} left out`);
+  }
+  return { notes, staves, timeSignature, pickupQuarters, tempos, warnings };
+};
+
+/**
+ * A song from a partwise MusicXML score. The first part with a treble clef
+ * is the melody; its lower staff, or its second voice when it has only one
+ * staff, becomes the bass.
+ * @throws MusicXmlError
+ */
+export const parseMusicXml = (xml: string, fallbackTitle: string = "Imported song"): ImportedSong => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const score = doc.documentElement;
+  if (!score || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new MusicXmlError("it isn't valid XML");
+  }
+  if (score.tagName === "score-timewise") {
+    throw new MusicXmlError("timewise scores aren't supported; export it as partwise");
+  }
+  if (score.tagName !== "score-partwise") {
+    throw new MusicXmlError("it isn't a MusicXML score");
+  }
+
+  const parts = getChildren(score, "part");
+  const part = parts.find((element) => getFirstClef(element, 1) === "G") ?? parts[0];
+  if (!part) throw new MusicXmlError("the score has no parts");
+
+  const partIndex = parts.indexOf(part);
+  const scorePart = getChildren(getChild(score, "part-list") ?? score, "score-part").find(
+    (element) => element.getAttribute("id") === part.getAttribute("id")
+  );
+  const partName = getText(scorePart, "part-name") ?? "Part";
+  const source = `${partName} (part ${partIndex + 1} of ${parts.length})`;
+
+  const parsed = parsePart(part);
+  const warnings = [...parsed.warnings];
+  if (partIndex > 0) warnings.unshift(`Read ${partName}, the first part in treble clef`);
+
+  // Melody and bass: two staves, or two voices on one staff
+  let melody: PartNote[];
+  let bass: PartNote[] = [];
+  if (parsed.staves >= 2) {
+    melody = parsed.notes.filter((note) => note.staff === 1);
+    bass = parsed.notes.filter((note) => note.staff === 2);
+  } else {
+    // Voice ids are numbers in practice ("1", "2", ..., "10")
+    const voices = [...new Set(parsed.notes.map((note) => note.voice))].sort(
+      (a, b) => Number(a) - Number(b) || a.localeCompare(b)
+    );
+    melody = parsed.notes.filter((note) => note.voice === voices[0]);
+    if (voices.length > 1) {
+      bass = parsed.notes.filter((note) => note.voice === voices[1]);
+    }
+  }
+  if (melody.length === 0) throw new MusicXmlError(`${partName} has no notes`);
+
+  const { notes, times, warnings: stepWarnings } = buildSteps(melody, bass);
+  warnings.push(...stepWarnings);
+
+  const { timing, warnings: timingWarnings } = getImportedTiming(
+    times,
+    parsed.tempos,
+    parsed.timeSignature,
+    parsed.pickupQuarters
+  );
+  warnings.push(...timingWarnings);
+
+  const title =
+    getText(getChild(score, "work"), "work-title") ??
+    getText(score, "movement-title") ??
+    fallbackTitle;
+  const composer = getChildren(getChild(score, "identification") ?? score, "creator")
+    .find((creator) => creator.getAttribute("type") === "composer")
+    ?.textContent?.trim();
+
+  const song: Song = {
+    title,
+    ...(composer ? { artist: composer } : {}),
+    difficulty: estimateDifficulty(notes),
+    ...timing,
+    notes,
+  };
+  return { song, source, warnings };
+};
+
+/**
+ * Read a .musicxml, .xml or compressed .mxl file
+ * @throws MusicXmlError
+ */
+export const importMusicXmlFile = async (file: File): Promise<ImportedSong> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  // ZIP archives start with "PK"
+  const isCompressed = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const xml = isCompressed ? await readMxl(buffer) : new TextDecoder().decode(buffer);
+  return parseMusicXml(xml, file.name.replace(/\.[^.]+$/, ""));
+};
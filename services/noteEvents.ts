@@ -0,0 +1,123 @@
+import { PitchResult } from "./pitchTracker";
+
+// Events the AudioEngine emits. Times are audio clock seconds of the frame.
+export interface NoteOnEvent {
+  type: "noteOn";
+  note: string;
+  time: number;
+  frequency: number; // Hz, 0 when the note only showed up in the spectrum
+  confidence: number; // Pitch clarity of the frame, 0-1
+}
+
+export interface NoteOffEvent {
+  type: "noteOff";
+  note: string;
+  time: number;
+  duration: number; // Seconds since the matching noteOn
+}
+
+export interface OnsetEvent {
+  type: "onset";
+  time: number;
+}
+
+// Every note has stopped
+export interface SilenceEvent {
+  type: "silence";
+  time: number;
+}
+
+// Sent for every analysis frame, after the note events of that frame
+export interface LevelEvent {
+  type: "level";
+  time: number;
+  rms: number;
+  clarity: number;
+  frequency: number; // Smoothed pitch estimate, also when no note is recognized
+}
+
+export type AudioEvent =
+  | NoteOnEvent
+  | NoteOffEvent
+  | OnsetEvent
+  | SilenceEvent
+  | LevelEvent;
+
+export type AudioEventType = AudioEvent["type"];
+
+export type AudioEventListener<K extends AudioEventType> = (
+  event: Extract<AudioEvent, { type: K }>
+) => void;
+
+/**
+ * Turns the per-frame note decisions of the PitchTracker into note start
+ * and end events. A pluck of a string that is still ringing ends its note
+ * and starts it again, so repeated notes produce one noteOn each. Other
+ * strings ringing through the pluck keep their note.
+ * Pure, like the tracker, so it also runs under Node.
+ */
+export class NoteEventDetector {
+  // Sounding notes and when they started
+  private active = new Map<string, number>();
+
+  process(result: PitchResult): AudioEvent[] {
+    const events: AudioEvent[] = [];
+    const { time } = result;
+    const wasSounding = this.active.size > 0;
+
+    if (result.onset) events.push({ type: "onset", time });
+    // Re-pluck: only the strings that were struck start over
+    for (const note of result.onsetNotes) {
+      if (this.active.has(note) && result.notes.includes(note)) {
+        events.push(this.noteOff(note, time));
+      }
+    }
+
+    for (const note of this.active.keys()) {
+      if (!result.notes.includes(note)) events.push(this.noteOff(note, time));
+    }
+
+    for (const note of result.notes) {
+      if (this.active.has(note)) continue;
+      this.active.set(note, time);
+      events.push({
+        type: "noteOn",
+        note,
+        time,
+        frequency: note === result.note ? result.frequency : 0,
+        confidence: result.clarity,
+      });
+    }
+
+    if (wasSounding && this.active.size === 0) {
+      events.push({ type: "silence", time });
+    }
+
+    events.push({
+      type: "level",
+      time,
+      rms: result.volume,
+      clarity: result.clarity,
+      frequency: result.frequency,
+    });
+    return events;
+  }
+
+  /**
+   * End every sounding note, e.g. when the microphone stops
+   */
+  reset(time: number): AudioEvent[] {
+    const events: AudioEvent[] = [];
+    for (const note of this.active.keys()) {
+      events.push(this.noteOff(note, time));
+    }
+    if (events.length > 0) events.push({ type: "silence", time });
+    return events;
+  }
+
+  private noteOff(note: string, time: number): NoteOffEvent {
+    const start = this.active.get(note) ?? time;
+    this.active.delete(note);
+    return { type: "noteOff", note, time, duration: time - start };
+  }
+}
@@ -0,0 +1,215 @@
+import { NoteLetter, Pitch } from "../types";
+
+// Note names are English ("C4", "F#4", "Bb3") unless stated otherwise.
+// German names are accepted too: "H4" = B4, "Fis4" = F#4, "Es4" = Eb4, and
+// with the "german" notation a bare "B4" means Bb4.
+export type PitchNotation = "english" | "german";
+
+export class InvalidPitchError extends Error {
+  constructor(readonly input: string, reason: string) {
+    super(`Invalid pitch "${input}": ${reason}`);
+    this.name = "InvalidPitchError";
+  }
+}
+
+const LETTERS: NoteLetter[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+// Semitones above C within an octave
+const LETTER_SEMITONES: Record<NoteLetter, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+// Spelling used when a pitch comes from a number (lyre levers only raise)
+const SHARP_SPELLING: [NoteLetter, number][] = [
+  ["C", 0],
+  ["C", 1],
+  ["D", 0],
+  ["D", 1],
+  ["E", 0],
+  ["F", 0],
+  ["F", 1],
+  ["G", 0],
+  ["G", 1],
+  ["A", 0],
+  ["A", 1],
+  ["B", 0],
+];
+
+const ACCIDENTALS: Record<string, number> = {
+  "": 0,
+  "#": 1,
+  "♯": 1,
+  "##": 2,
+  x: 2,
+  b: -1,
+  "♭": -1,
+  bb: -2,
+  // German suffixes
+  is: 1,
+  isis: 2,
+  es: -1,
+  eses: -2,
+  s: -1, // As, Es
+  ses: -2, // Ases, Eses
+};
+
+const ACCIDENTAL_NAMES: Record<number, string> = {
+  [-2]: "bb",
+  [-1]: "b",
+  0: "",
+  1: "#",
+  2: "##",
+};
+
+const PITCH_PATTERN = /^([A-Ha-h])(isis|eses|ses|is|es|s|##|#|♯|x|bb|b|♭)?(-?\d+)?$/;
+
+const MIN_OCTAVE = 0;
+const MAX_OCTAVE = 9;
+
+/**
+ * Parse a note name such as "C4", "F#4", "Bb3", "H3" or "Fis4"
+ * @throws InvalidPitchError when the name is not a pitch with an octave
+ */
+export const parsePitch = (
+  input: string,
+  notation: PitchNotation = "english"
+): Pitch => {
+  const match = PITCH_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new InvalidPitchError(
+      input,
+      'expected a letter A-H, an optional accidental and an octave, e.g. "F#4"'
+    );
+  }
+
+  const [, rawLetter, suffix = "", rawOctave] = match;
+  const name = rawLetter.toUpperCase();
+
+  if (rawOctave === undefined) {
+    throw new InvalidPitchError(input, "missing octave number");
+  }
+  const octave = Number(rawOctave);
+  if (octave < MIN_OCTAVE || octave > MAX_OCTAVE) {
+    throw new InvalidPitchError(
+      input,
+      `octave must be between ${MIN_OCTAVE} and ${MAX_OCTAVE}`
+    );
+  }
+
+  // German "s"/"ses" only follow vowels (As, Es), "es"/"eses" only consonants
+  const isVowel = name === "A" || name === "E";
+  if (
+    ((suffix === "s" || suffix === "ses") && !isVowel) ||
+    ((suffix === "es" || suffix === "eses") && isVowel)
+  ) {
+    throw new InvalidPitchError(input, `"${name}${suffix}" is not a note name`);
+  }
+
+  let letter: NoteLetter;
+  let accidental = ACCIDENTALS[suffix];
+  if (name === "H") {
+    letter = "B";
+  } else if (name === "B" && notation === "german") {
+    // German B is the English Bb; only a bare "B" is allowed
+    if (suffix) {
+      throw new InvalidPitchError(input, 'use "H" for B natural in German');
+    }
+    letter = "B";
+    accidental = -1;
+  } else {
+    letter = name as NoteLetter;
+  }
+
+  return { letter, accidental, octave };
+};
+
+/**
+ * Like parsePitch, but returns null for invalid input
+ */
+export const tryParsePitch = (
+  input: string,
+  notation: PitchNotation = "english"
+): Pitch | null => {
+  try {
+    return parsePitch(input, notation);
+  } catch (e) {
+    if (e instanceof InvalidPitchError) return null;
+    throw e;
+  }
+};
+
+/**
+ * MIDI note number, e.g. A4 = 69, C4 = 60
+ */
+export const pitchToMidi = (pitch: Pitch): number =>
+  (pitch.octave + 1) * 12 + LETTER_SEMITONES[pitch.letter] + pitch.accidental;
+
+/**
+ * Pitch of a MIDI note number, spelled with sharps
+ */
+export const midiToPitch = (midi: number): Pitch => {
+  const [letter, accidental] = SHARP_SPELLING[((midi % 12) + 12) % 12];
+  return { letter, accidental, octave: Math.floor(midi / 12) - 1 };
+};
+
+/**
+ * Equal-tempered frequency relative to the given A4 frequency
+ */
+export const pitchToFrequency = (pitch: Pitch, referencePitch: number): number =>
+  referencePitch * Math.pow(2, (pitchToMidi(pitch) - 69) / 12);
+
+/**
+ * Nearest MIDI note number (fractional) of a frequency
+ */
+export const frequencyToMidi = (frequency: number, referencePitch: number): number =>
+  69 + 12 * Math.log2(frequency / referencePitch);
+
+/**
+ * English note name, e.g. "F#4" or "Bb3"
+ */
+export const formatPitch = (pitch: Pitch): string =>
+  `${pitch.letter}${ACCIDENTAL_NAMES[pitch.accidental] ?? ""}${pitch.octave}`;
+
+/**
+ * Diatonic steps above C0, ignoring accidentals (staff line/space index)
+ */
+export const getStaffStep = (pitch: Pitch): number =>
+  pitch.octave * 7 + LETTERS.indexOf(pitch.letter);
+
+/**
+ * MIDI number of a note name
+ * @throws InvalidPitchError
+ */
+export const noteNameToMidi = (
+  name: string,
+  notation: PitchNotation = "english"
+): number => pitchToMidi(parsePitch(name, notation));
+
+/**
+ * Canonical name of a note as the pitch tracker reports it (sharps),
+ * so "Gb4", "Fis4" and "F#4" all become "F#4"
+ * @throws InvalidPitchError
+ */
+export const normalizeNoteName = (
+  name: string,
+  notation: PitchNotation = "english"
+): string => formatPitch(midiToPitch(noteNameToMidi(name, notation)));
+
+/**
+ * Whether two note names sound the same, e.g. "F#4" and "Gb4"
+ */
+export const isEnharmonic = (a: string, b: string): boolean => {
+  const pitchA = tryParsePitch(a);
+  const pitchB = tryParsePitch(b);
+  return (
+    pitchA !== null &&
+    pitchB !== null &&
+    pitchToMidi(pitchA) === pitchToMidi(pitchB)
+  );
+};
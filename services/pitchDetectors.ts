@@ -0,0 +1,438 @@
+import { PitchEstimate } from "./dsp";
+
+export type PitchDetectorId = "nsdf" | "yin" | "mpm" | "hps";
+
+export const DEFAULT_PITCH_DETECTOR: PitchDetectorId = "nsdf";
+
+// Shown in the Troubleshoot panel
+export const PITCH_DETECTORS: Record<
+  PitchDetectorId,
+  { label: string; description: string }
+> = {
+  nsdf: {
+    label: "NSDF",
+    description: "Fast autocorrelation. Good default for most rooms.",
+  },
+  yin: {
+    label: "YIN",
+    description: "Difference function with a fixed threshold. Robust in noisy rooms.",
+  },
+  mpm: {
+    label: "McLeod (MPM)",
+    description: "Key-maximum peak picking. Fewer octave errors on high strings.",
+  },
+  hps: {
+    label: "Harmonic Product",
+    description: "Spectrum based. Helps when the fundamental is weak or the mic is thin.",
+  },
+};
+
+/** Everything a detector may look at for one analysis frame */
+export interface PitchDetectorInput {
+  timeDomain: Float32Array; // Newest samples, oldest first
+  frequencyData: Float32Array; // dB magnitude spectrum of the full window
+  sampleRate: number;
+  minFrequency: number;
+  maxFrequency: number;
+}
+
+export interface PitchDetector {
+  readonly id: PitchDetectorId;
+  detect(input: PitchDetectorInput): PitchEstimate;
+}
+
+const NO_PITCH: PitchEstimate = { frequency: 0, clarity: 0 };
+
+/**
+ * Lag range to search, with a margin around the instrument range
+ */
+const getPeriodRange = (
+  sampleRate: number,
+  minFrequency: number,
+  maxFrequency: number
+) => ({
+  minFrequency: minFrequency * 0.8,
+  maxFrequency: maxFrequency * 1.1,
+  minPeriod: Math.max(2, Math.floor(sampleRate / (maxFrequency * 1.1))),
+  maxPeriod: Math.floor(sampleRate / (minFrequency * 0.8)),
+});
+
+/**
+ * Offset of the true extremum from index i given its two neighbours
+ */
+const parabolicOffset = (alpha: number, beta: number, gamma: number): number => {
+  const denominator = alpha - 2 * beta + gamma;
+  return denominator !== 0 ? (0.5 * (alpha - gamma)) / denominator : 0;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Improved NSDF (Normalized Square Difference Function) pitch detection
+ * Uses parabolic interpolation and "first peak above 80% of max" picking
+ */
+export class NsdfDetector implements PitchDetector {
+  readonly id = "nsdf";
+  private readonly PEAK_THRESHOLD = 0.2; // Minimum NSDF value to consider
+  private nsdf: Float32Array;
+
+  constructor(windowSize: number) {
+    this.nsdf = new Float32Array(windowSize);
+  }
+
+  detect({
+    timeDomain,
+    sampleRate,
+    minFrequency,
+    maxFrequency,
+  }: PitchDetectorInput): PitchEstimate {
+    const range = getPeriodRange(sampleRate, minFrequency, maxFrequency);
+    const analysisSize = Math.min(2048, timeDomain.length);
+
+    // Calculate NSDF values for each period
+    let count = 0;
+    for (
+      let period = range.minPeriod;
+      period <= range.maxPeriod && period < analysisSize && count < this.nsdf.length;
+      period++
+    ) {
+      let acf = 0; // Autocorrelation
+      let energy1 = 0;
+      let energy2 = 0;
+
+      const compareLength = Math.min(analysisSize - period, 512);
+
+      for (let i = 0; i < compareLength; i++) {
+        const val1 = timeDomain[i];
+        const val2 = timeDomain[i + period];
+        acf += val1 * val2;
+        energy1 += val1 * val1;
+        energy2 += val2 * val2;
+      }
+
+      // NSDF formula: 2 * r(t) / (m(0) + m(t))
+      const energySum = energy1 + energy2;
+      this.nsdf[count++] = energySum > 0.0000001 ? (2 * acf) / energySum : 0;
+    }
+
+    // Find peaks in NSDF (local maxima above threshold)
+    const nsdf = this.nsdf;
+    const peaks: { period: number; value: number }[] = [];
+    for (let i = 1; i < count - 1; i++) {
+      if (
+        nsdf[i] > nsdf[i - 1] &&
+        nsdf[i] > nsdf[i + 1] &&
+        nsdf[i] > this.PEAK_THRESHOLD
+      ) {
+        // Parabolic interpolation for sub-sample accuracy
+        const alpha = nsdf[i - 1];
+        const beta = nsdf[i];
+        const gamma = nsdf[i + 1];
+        const peakOffset = parabolicOffset(alpha, beta, gamma);
+        peaks.push({
+          period: range.minPeriod + i + peakOffset,
+          value: beta - 0.25 * (alpha - gamma) * peakOffset,
+        });
+      }
+    }
+
+    if (peaks.length === 0) return NO_PITCH;
+
+    // Select the first peak that's at least 80% of the maximum
+    // This helps avoid octave errors (picking harmonics instead of fundamental)
+    const maxPeakValue = Math.max(...peaks.map((p) => p.value));
+    const threshold = maxPeakValue * 0.8;
+
+    let bestPeak = peaks[0];
+    for (const peak of peaks) {
+      if (peak.value >= threshold) {
+        bestPeak = peak;
+        break; // Take the first (lowest frequency) peak above threshold
+      }
+    }
+
+    const frequency = sampleRate / bestPeak.period;
+    return {
+      frequency: Math.max(
+        range.minFrequency,
+        Math.min(frequency, range.maxFrequency)
+      ),
+      clarity: clamp01(bestPeak.value),
+    };
+  }
+}
+
+/**
+ * YIN (de Cheveigné & Kawahara): cumulative mean normalized difference
+ * with an absolute threshold. Clarity is 1 - aperiodicity.
+ */
+export class YinDetector implements PitchDetector {
+  readonly id = "yin";
+  private readonly THRESHOLD = 0.15;
+  private difference: Float32Array;
+
+  constructor(windowSize: number) {
+    this.difference = new Float32Array(Math.floor(windowSize / 2) + 2);
+  }
+
+  detect({
+    timeDomain,
+    sampleRate,
+    minFrequency,
+    maxFrequency,
+  }: PitchDetectorInput): PitchEstimate {
+    const range = getPeriodRange(sampleRate, minFrequency, maxFrequency);
+    const integrationSize = Math.floor(timeDomain.length / 2);
+    const maxPeriod = Math.min(range.maxPeriod, integrationSize - 1);
+    if (maxPeriod <= range.minPeriod) return NO_PITCH;
+
+    const d = this.difference;
+    d[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= maxPeriod + 1; tau++) {
+      let sum = 0;
+      for (let i = 0; i < integrationSize; i++) {
+        const delta = timeDomain[i] - timeDomain[i + tau];
+        sum += delta * delta;
+      }
+      runningSum += sum;
+      d[tau] = runningSum > 0 ? (sum * tau) / runningSum : 1;
+    }
+
+    // First dip below the threshold, followed down to its local minimum
+    let bestTau = -1;
+    for (let tau = range.minPeriod; tau <= maxPeriod; tau++) {
+      if (d[tau] < this.THRESHOLD) {
+        while (tau + 1 <= maxPeriod && d[tau + 1] < d[tau]) tau++;
+        bestTau = tau;
+        break;
+      }
+    }
+
+    // No confident period: report the global minimum with its low confidence
+    if (bestTau < 0) {
+      bestTau = range.minPeriod;
+      for (let tau = range.minPeriod + 1; tau <= maxPeriod; tau++) {
+        if (d[tau] < d[bestTau]) bestTau = tau;
+      }
+    }
+
+    const period =
+      bestTau + parabolicOffset(d[bestTau - 1], d[bestTau], d[bestTau + 1]);
+    if (period <= 0) return NO_PITCH;
+
+    const frequency = sampleRate / period;
+    return {
+      frequency: Math.max(
+        range.minFrequency,
+        Math.min(frequency, range.maxFrequency)
+      ),
+      clarity: clamp01(1 - d[bestTau]),
+    };
+  }
+}
+
+/**
+ * McLeod Pitch Method: full-window NSDF, one key maximum per positive lobe,
+ * then the first key maximum within K of the highest one
+ */
+export class McLeodDetector implements PitchDetector {
+  readonly id = "mpm";
+  private readonly K = 0.93;
+  private nsdf: Float32Array;
+
+  constructor(windowSize: number) {
+    this.nsdf = new Float32Array(windowSize);
+  }
+
+  detect({
+    timeDomain,
+    sampleRate,
+    minFrequency,
+    maxFrequency,
+  }: PitchDetectorInput): PitchEstimate {
+    const range = getPeriodRange(sampleRate, minFrequency, maxFrequency);
+    const size = Math.min(timeDomain.length, this.nsdf.length);
+    const maxPeriod = Math.min(range.maxPeriod + 1, size - 1);
+    const nsdf = this.nsdf;
+
+    // m(tau) shrinks by the two samples that leave the overlap at each lag
+    let energy = 0;
+    for (let i = 0; i < size; i++) energy += timeDomain[i] * timeDomain[i];
+    let m = 2 * energy;
+
+    for (let tau = 0; tau <= maxPeriod; tau++) {
+      if (tau > 0) {
+        m -=
+          timeDomain[tau - 1] * timeDomain[tau - 1] +
+          timeDomain[size - tau] * timeDomain[size - tau];
+      }
+      let acf = 0;
+      for (let i = 0; i < size - tau; i++) {
+        acf += timeDomain[i] * timeDomain[i + tau];
+      }
+      nsdf[tau] = m > 0.0000001 ? (2 * acf) / m : 0;
+    }
+
+    // Key maxima: the highest point between each positive-going and
+    // negative-going zero crossing, skipping the lobe around lag 0
+    const keyMaxima: number[] = [];
+    let tau = 1;
+    while (tau <= maxPeriod && nsdf[tau] > 0) tau++;
+    let lobeMax = -1;
+    for (; tau < maxPeriod; tau++) {
+      if (nsdf[tau] > 0) {
+        if (lobeMax < 0 || nsdf[tau] > nsdf[lobeMax]) lobeMax = tau;
+      } else if (lobeMax >= 0) {
+        keyMaxima.push(lobeMax);
+        lobeMax = -1;
+      }
+    }
+    if (lobeMax >= 0) keyMaxima.push(lobeMax);
+
+    const candidates = keyMaxima.filter(
+      (index) => index >= range.minPeriod && index < maxPeriod
+    );
+    if (candidates.length === 0) return NO_PITCH;
+
+    const highest = Math.max(...candidates.map((index) => nsdf[index]));
+    const chosen =
+      candidates.find((index) => nsdf[index] >= this.K * highest) ??
+      candidates[0];
+
+    const alpha = nsdf[chosen - 1];
+    const beta = nsdf[chosen];
+    const gamma = nsdf[chosen + 1];
+    const offset = parabolicOffset(alpha, beta, gamma);
+    const frequency = sampleRate / (chosen + offset);
+
+    return {
+      frequency: Math.max(
+        range.minFrequency,
+        Math.min(frequency, range.maxFrequency)
+      ),
+      clarity: clamp01(beta - 0.25 * (alpha - gamma) * offset),
+    };
+  }
+}
+
+/**
+ * Harmonic Product Spectrum: the fundamental is the bin where the spectrum
+ * and its downsampled copies line up. Clarity is the share of in-range
+ * energy that sits on the detected harmonic series.
+ */
+export class HarmonicProductSpectrumDetector implements PitchDetector {
+  readonly id = "hps";
+  private readonly HARMONICS = 4;
+  private readonly OCTAVE_RATIO_DB = -14; // Lower octave wins within ~0.2x of the peak
+  private hps: Float32Array;
+
+  constructor(binCount: number) {
+    this.hps = new Float32Array(binCount);
+  }
+
+  detect({
+    frequencyData,
+    sampleRate,
+    minFrequency,
+    maxFrequency,
+  }: PitchDetectorInput): PitchEstimate {
+    const range = getPeriodRange(sampleRate, minFrequency, maxFrequency);
+    const binWidth = sampleRate / (frequencyData.length * 2);
+    const minBin = Math.max(2, Math.floor(range.minFrequency / binWidth));
+    const maxBin = Math.min(
+      Math.ceil(range.maxFrequency / binWidth),
+      Math.floor((frequencyData.length - 2) / this.HARMONICS)
+    );
+    if (maxBin <= minBin) return NO_PITCH;
+
+    // Sum of dB values = product of magnitudes
+    let bestBin = -1;
+    for (let bin = minBin; bin <= maxBin; bin++) {
+      let sum = frequencyData[bin];
+      for (let h = 2; h <= this.HARMONICS; h++) {
+        const center = bin * h;
+        // Strings are slightly inharmonic, so take the best neighbouring bin
+        sum += Math.max(
+          frequencyData[center - 1],
+          frequencyData[center],
+          frequencyData[center + 1]
+        );
+      }
+      this.hps[bin] = sum;
+      if (isFinite(sum) && (bestBin < 0 || sum > this.hps[bestBin])) {
+        bestBin = bin;
+      }
+    }
+    if (bestBin < 0) return NO_PITCH;
+
+    // Octave correction: prefer the lower octave when it is nearly as strong
+    const halfBin = Math.round(bestBin / 2);
+    if (
+      halfBin >= minBin &&
+      this.hps[halfBin] - this.hps[bestBin] > this.OCTAVE_RATIO_DB
+    ) {
+      bestBin = halfBin;
+    }
+
+    // Refine on the fundamental's own spectral peak
+    let peakBin = bestBin;
+    if (frequencyData[bestBin - 1] > frequencyData[peakBin]) peakBin = bestBin - 1;
+    if (frequencyData[bestBin + 1] > frequencyData[peakBin]) peakBin = bestBin + 1;
+    const frequency =
+      (peakBin +
+        parabolicOffset(
+          frequencyData[peakBin - 1],
+          frequencyData[peakBin],
+          frequencyData[peakBin + 1]
+        )) *
+      binWidth;
+
+    // Harmonic energy ratio as the confidence measure
+    const lastBin = Math.min(frequencyData.length - 1, maxBin * this.HARMONICS + 2);
+    let total = 0;
+    let harmonic = 0;
+    for (let bin = minBin; bin <= lastBin; bin++) {
+      const power = Math.pow(10, frequencyData[bin] / 10);
+      total += power;
+      const ratio = (bin * binWidth) / frequency;
+      const nearest = Math.round(ratio);
+      if (
+        nearest >= 1 &&
+        nearest <= this.HARMONICS &&
+        Math.abs(bin - nearest * (frequency / binWidth)) <= 2
+      ) {
+        harmonic += power;
+      }
+    }
+
+    return {
+      frequency: Math.max(
+        range.minFrequency,
+        Math.min(frequency, range.maxFrequency)
+      ),
+      clarity: total > 0 ? clamp01(harmonic / total) : 0,
+    };
+  }
+}
+
+/**
+ * Build a detector sized for the analysis windows it will receive
+ */
+export function createPitchDetector(
+  id: PitchDetectorId,
+  windowSize: number,
+  binCount: number
+): PitchDetector {
+  switch (id) {
+    case "yin":
+      return new YinDetector(windowSize);
+    case "mpm":
+      return new McLeodDetector(windowSize);
+    case "hps":
+      return new HarmonicProductSpectrumDetector(binCount);
+    case "nsdf":
+    default:
+      return new NsdfDetector(windowSize);
+  }
+}
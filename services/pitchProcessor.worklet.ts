@@ -0,0 +1,96 @@
+import {
+  FrameAnalyzer,
+  PITCH_PROCESSOR_NAME,
+  PitchFrameMessage,
+  PitchProcessorCommand,
+  PitchProcessorOptions,
+} from "./frameAnalyzer";
+
+// AudioWorkletGlobalScope is not part of the DOM lib typings
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+/**
+ * Collects every render quantum into a ring buffer and posts
+ * pitch features back to the main thread at a fixed hop.
+ * Keeps running when the tab is throttled, unlike requestAnimationFrame.
+ */
+class PitchProcessor extends AudioWorkletProcessor {
+  private analyzer: FrameAnalyzer;
+  private ring: Float32Array;
+  private window: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  private samplesSinceFrame = 0;
+  private hopSize: number;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { fftSize, hopSize, minFrequency, maxFrequency, detector } =
+      options.processorOptions as PitchProcessorOptions;
+
+    this.hopSize = hopSize;
+    this.ring = new Float32Array(fftSize);
+    this.window = new Float32Array(fftSize);
+    this.analyzer = new FrameAnalyzer({
+      sampleRate,
+      fftSize,
+      minFrequency,
+      maxFrequency,
+      detector,
+    });
+
+    this.port.onmessage = (event: MessageEvent<PitchProcessorCommand>) => {
+      const command = event.data;
+      if (command.type === "range") {
+        this.analyzer.setFrequencyRange(
+          command.minFrequency,
+          command.maxFrequency
+        );
+      } else if (command.type === "detector") {
+        this.analyzer.setDetector(command.detector);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    const size = this.ring.length;
+    for (let i = 0; i < channel.length; i++) {
+      this.ring[this.writeIndex] = channel[i];
+      this.writeIndex = (this.writeIndex + 1) % size;
+    }
+    this.filled = Math.min(this.filled + channel.length, size);
+    this.samplesSinceFrame += channel.length;
+
+    if (this.filled === size && this.samplesSinceFrame >= this.hopSize) {
+      this.samplesSinceFrame = 0;
+
+      // Unroll the ring buffer so the window is ordered oldest -> newest
+      const tail = size - this.writeIndex;
+      this.window.set(this.ring.subarray(this.writeIndex), 0);
+      this.window.set(this.ring.subarray(0, this.writeIndex), tail);
+
+      const message: PitchFrameMessage = {
+        type: "frame",
+        time: currentTime + channel.length / sampleRate,
+        ...this.analyzer.analyze(this.window),
+      };
+      this.port.postMessage(message);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(PITCH_PROCESSOR_NAME, PitchProcessor);
@@ -0,0 +1,564 @@
+import {
+  DEFAULT_REFERENCE_PITCH,
+  LYRE_NOTES,
+  buildNoteFrequencies,
+} from "../constants";
+import { StringCalibration } from "../types";
+import { SpectralPeak } from "./dsp";
+import { AnalysisFrame } from "./frameAnalyzer";
+
+// Margins around the lowest and highest string, as ratios of their frequency.
+// Tuned on the 19-string lyre: 165-1100 Hz analysis, 150-1200 Hz band-pass.
+const RANGE_MARGIN_BELOW = 165 / 174.61; // Slightly below F3 to allow for tuning variations
+const RANGE_MARGIN_ABOVE = 1100 / 1046.5; // Slightly above C6
+const HIGHPASS_RATIO = 150 / 174.61; // Cut rumble, HVAC etc. below the lyre range
+const LOWPASS_RATIO = 1200 / 1046.5; // Cut hiss and electronics above the lyre range
+// A peak this close to a multiple of a louder string may be its overtone...
+const HARMONIC_TOLERANCE_CENTS = 30;
+// ...if it is no louder than a plucked string's harmonics, which fall about
+// this much per octave. A louder peak is a string played along with it.
+const HARMONIC_ROLLOFF_DB_PER_OCTAVE = 6;
+// A string whose peak jumps this much at an onset is the one that was plucked.
+// The analysis window only fills with the new pluck over the following
+// frames, so the rise is measured over the onset frame and the next few
+// (~85 ms, about as long as a note takes to be confirmed).
+const PLUCK_RISE_DB = 6;
+const PLUCK_RISE_FRAMES = 4;
+
+// Input chain in front of the analysis: band-pass around the lyre range plus boost
+export const INPUT_GAIN = 1.5; // 150% volume boost - avoid clipping
+
+/**
+ * Frequency limits for analysis and the input filters of one instrument
+ */
+export interface FrequencyRange {
+  minFrequency: number;
+  maxFrequency: number;
+  highpassHz: number;
+  lowpassHz: number;
+}
+
+/**
+ * Analysis range and band-pass for the given strings (lowest first)
+ * at the given concert pitch
+ */
+export const getFrequencyRange = (
+  referencePitch: number = DEFAULT_REFERENCE_PITCH,
+  strings: readonly string[] = LYRE_NOTES
+): FrequencyRange => {
+  const lowest = strings[0];
+  const highest = strings[strings.length - 1];
+  const frequencies = buildNoteFrequencies(referencePitch, [lowest, highest]);
+  return {
+    minFrequency: frequencies[lowest] * RANGE_MARGIN_BELOW,
+    maxFrequency: frequencies[highest] * RANGE_MARGIN_ABOVE,
+    highpassHz: frequencies[lowest] * HIGHPASS_RATIO,
+    lowpassHz: frequencies[highest] * LOWPASS_RATIO,
+  };
+};
+
+export interface PitchResult {
+  note: string;
+  notes: string[];
+  frequency: number;
+  clarity: number;
+  volume: number;
+  time: number; // Audio clock time (seconds) of the analysed frame
+  onset: boolean; // A new pluck started in this frame
+  onsetNotes: string[]; // Strings found plucked in this frame, up to ~85 ms after the onset
+}
+
+/**
+ * Every threshold that decides whether a frame counts as a note.
+ * Exposed so the offline benchmark can sweep them.
+ */
+export interface PitchTrackerSettings {
+  rmsThreshold: number;
+  correlationThreshold: number;
+  spectralFlatnessThreshold: number; // Below this = tonal sound
+  centsTolerance: number; // Accept notes within this many cents
+  zeroCrossingNoiseThreshold: number; // Above this = likely noise
+  historySize: number; // Number of frames to consider
+  requiredConsistency: number; // How many must agree
+  maxPolyNotes: number; // Upper bound on simultaneous notes reported
+  onsetThreshold: number; // Minimum spectral flux that counts as a pluck
+  minOnsetInterval: number; // Seconds between two reported plucks
+  calibratedRmsRatio: number; // Calibrated string: accept down to this share of its typical volume
+  calibratedClarityRatio: number; // ...and this share of its typical clarity
+}
+
+export const DEFAULT_TRACKER_SETTINGS: PitchTrackerSettings = {
+  rmsThreshold: 0.002, // Slightly higher to reject quiet noise
+  correlationThreshold: 0.3, // Much stricter - noise has low correlation
+  spectralFlatnessThreshold: 0.3,
+  centsTolerance: 50, // Half a semitone
+  zeroCrossingNoiseThreshold: 0.3,
+  historySize: 5,
+  requiredConsistency: 3,
+  maxPolyNotes: 6,
+  onsetThreshold: 0.01,
+  minOnsetInterval: 0.08, // Faster than anyone re-plucks a string
+  calibratedRmsRatio: 0.1, // Lets the decaying tail still count
+  calibratedClarityRatio: 0.5,
+};
+
+/**
+ * Turns analysis frames into stable note decisions.
+ * Pure state machine with no Web Audio dependencies - the AudioEngine feeds
+ * it live frames, the benchmark feeds it frames from WAV files.
+ */
+export class PitchTracker {
+  settings: PitchTrackerSettings;
+
+  // Noise resistance: temporal smoothing
+  private noteHistory: string[] = [];
+  private frequencyHistory: number[] = [];
+  // Polyphonic detection: several strings ringing at once (melody + bass)
+  private chordHistory: string[][] = [];
+
+  // Adaptive noise floor
+  private noiseFloor: number = 0.001;
+  private noiseFloorSamples: number[] = [];
+  private readonly NOISE_FLOOR_WINDOW = 50;
+
+  // Onset detection: adaptive threshold over recent spectral flux
+  private fluxHistory: number[] = [];
+  private lastOnsetTime: number = -Infinity;
+  // Power (dB) of each string's spectral peak in the previous frame
+  private notePower: Record<string, number> = {};
+  // ...and just before the last onset, while its plucked strings are sought
+  private onsetPower: Record<string, number> = {};
+  private onsetFramesLeft: number = 0;
+  private onsetNotesFound: string[] = [];
+  private readonly FLUX_WINDOW = 10; // ~200ms of frames
+  private readonly FLUX_MEDIAN_FACTOR = 2; // Onset must stand out this much
+
+  // Strings, note table and valid range for the current instrument and tuning
+  private referencePitch: number = DEFAULT_REFERENCE_PITCH;
+  private strings: readonly string[] = LYRE_NOTES;
+  private noteFrequencies: Record<string, number> = buildNoteFrequencies();
+  private range: FrequencyRange = getFrequencyRange();
+  // Measured frequency, volume and clarity of each calibrated string
+  private calibration: Record<string, StringCalibration> = {};
+  // Notes the player is asked for right now, never mistaken for overtones
+  private expectedNotes: readonly string[] = [];
+
+  constructor(settings: Partial<PitchTrackerSettings> = {}) {
+    this.settings = { ...DEFAULT_TRACKER_SETTINGS, ...settings };
+  }
+
+  getNoiseFloor(): number {
+    return this.noiseFloor;
+  }
+
+  getReferencePitch(): number {
+    return this.referencePitch;
+  }
+
+  getFrequencyRange(): FrequencyRange {
+    return this.range;
+  }
+
+  /**
+   * Signed distance of a frequency from a string's expected pitch,
+   * positive when sharp. Null for notes the instrument does not have.
+   */
+  getCentsOffset(note: string, frequency: number): number | null {
+    const noteFreq = this.noteFrequencies[note];
+    if (!noteFreq || frequency <= 0) return null;
+    return 1200 * Math.log2(frequency / noteFreq);
+  }
+
+  /**
+   * Match notes against a lyre tuned to the given A4 frequency
+   */
+  setReferencePitch(referencePitch: number): void {
+    if (referencePitch === this.referencePitch) return;
+    this.referencePitch = referencePitch;
+    this.retune();
+  }
+
+  /**
+   * Only report notes the instrument actually has (lowest string first)
+   */
+  setStrings(strings: readonly string[]): void {
+    if (strings.join() === this.strings.join()) return;
+    this.strings = strings;
+    this.retune();
+  }
+
+  /**
+   * Match and gate calibrated strings by their own measurements instead of
+   * the global thresholds. Keys must be spelled like the strings ("F#4").
+   */
+  setCalibration(calibration: Record<string, StringCalibration>): void {
+    this.calibration = calibration;
+  }
+
+  /**
+   * Notes the current step asks for, spelled like the strings ("F#4").
+   * A peak on one of them is kept even where it could be an overtone.
+   */
+  setExpectedNotes(notes: readonly string[]): void {
+    this.expectedNotes = notes;
+  }
+
+  private retune(): void {
+    this.noteFrequencies = buildNoteFrequencies(
+      this.referencePitch,
+      this.strings
+    );
+    this.range = getFrequencyRange(this.referencePitch, this.strings);
+    this.clearHistory();
+  }
+
+  /**
+   * Forget the smoothing history (e.g. after switching detector)
+   */
+  clearHistory(): void {
+    this.noteHistory = [];
+    this.frequencyHistory = [];
+    this.chordHistory = [];
+    this.notePower = {};
+    this.onsetFramesLeft = 0;
+  }
+
+  /**
+   * Forget everything, including the learned noise floor
+   */
+  reset(): void {
+    this.clearHistory();
+    this.noiseFloorSamples = [];
+    this.noiseFloor = 0.001;
+    this.fluxHistory = [];
+    this.lastOnsetTime = -Infinity;
+  }
+
+  /**
+   * Turn one frame of signal features into a note decision
+   * and update the temporal smoothing state
+   */
+  process(frame: AnalysisFrame): PitchResult {
+    const settings = this.settings;
+
+    // 1. Update adaptive noise floor (tracks quiet periods)
+    this.updateNoiseFloor(frame.rms);
+
+    // 2. High ZCR suggests noise, not pitched signal
+    const isLikelyNoise = frame.zcr > settings.zeroCrossingNoiseThreshold;
+
+    // 3. Low flatness = tonal sound (music), High flatness = noise
+    const isTonalSound =
+      frame.spectralFlatness < settings.spectralFlatnessThreshold;
+
+    // 4. Determine raw detected note (before temporal smoothing)
+    let rawNote = "";
+    const adaptiveThreshold = this.noiseFloor * 2;
+    const effectiveThreshold = Math.max(
+      settings.rmsThreshold,
+      adaptiveThreshold
+    );
+
+    // Enhanced detection criteria for lyre harp:
+    // - Must pass volume threshold
+    // - Must have good pitch clarity
+    // - Must not have excessive zero-crossings (noise indicator)
+    // - Must be tonal (low spectral flatness) OR have harmonic content
+    // - Frequency must be in lyre harp range
+    const isValidLyreFrequency =
+      frame.frequency >= this.range.minFrequency &&
+      frame.frequency <= this.range.maxFrequency;
+    const isMusicalSignal =
+      frame.rms > effectiveThreshold &&
+      !isLikelyNoise &&
+      (isTonalSound || frame.hasHarmonics);
+
+    const candidate =
+      isValidLyreFrequency &&
+      !isLikelyNoise &&
+      (isTonalSound || frame.hasHarmonics)
+        ? this.frequencyToLyreNote(frame.frequency)
+        : "";
+    if (candidate) {
+      // A calibrated string is gated by its own volume and clarity,
+      // so quiet treble strings are not held to the bass strings' level
+      const calibration = this.calibration[candidate];
+      const rmsThreshold = calibration
+        ? Math.max(
+            calibration.rms * settings.calibratedRmsRatio,
+            adaptiveThreshold
+          )
+        : effectiveThreshold;
+      const clarityThreshold = calibration
+        ? calibration.clarity * settings.calibratedClarityRatio
+        : settings.correlationThreshold;
+      if (frame.rms > rmsThreshold && frame.clarity > clarityThreshold) {
+        rawNote = candidate;
+      }
+    }
+
+    // A pluck is a flux spike above the recent level with enough volume.
+    // This also catches re-plucks of a string that is still ringing.
+    const onset = this.detectOnset(frame, frame.rms > effectiveThreshold);
+    const onsetNotes = this.getRisingNotes(frame.peaks, onset);
+
+    // Chords lower the pitch clarity, so polyphonic detection only uses the
+    // volume and tonality gates and reads the notes from the spectrum instead.
+    // Spectral peaks carry no volume of their own, so the global gate applies.
+    const rawChord = isMusicalSignal ? this.peaksToLyreNotes(frame.peaks) : [];
+
+    // 5. Apply temporal smoothing - only accept notes that are consistent
+    this.noteHistory.push(rawNote);
+    this.frequencyHistory.push(frame.frequency);
+    this.chordHistory.push(rawChord);
+    if (this.noteHistory.length > settings.historySize) {
+      this.noteHistory.shift();
+      this.frequencyHistory.shift();
+      this.chordHistory.shift();
+    }
+
+    const stableNote = this.getMostConsistentNote();
+    const stableNotes = this.getConsistentChordNotes();
+    if (stableNote && !stableNotes.includes(stableNote)) {
+      stableNotes.unshift(stableNote);
+    }
+
+    return {
+      note: stableNote,
+      notes: stableNotes,
+      frequency: this.getMedianFrequency(),
+      clarity: frame.clarity,
+      volume: frame.rms,
+      time: frame.time,
+      onset,
+      onsetNotes,
+    };
+  }
+
+  /**
+   * Update the power of every string's peak and return the strings whose
+   * peak rose sharply since the last onset. A re-pluck only restarts that
+   * string, not every string that is still ringing.
+   */
+  private getRisingNotes(peaks: SpectralPeak[], onset: boolean): string[] {
+    const power: Record<string, number> = {};
+    for (const peak of peaks) {
+      const note = this.frequencyToLyreNote(peak.frequency);
+      // Peaks come strongest first, so the first one of each string counts
+      if (note && !(note in power)) power[note] = peak.power;
+    }
+
+    if (onset) {
+      this.onsetPower = this.notePower;
+      this.onsetFramesLeft = PLUCK_RISE_FRAMES;
+      this.onsetNotesFound = [];
+    }
+    this.notePower = power;
+    if (this.onsetFramesLeft === 0) return [];
+    this.onsetFramesLeft--;
+
+    const rising = Object.keys(power).filter(
+      (note) =>
+        !this.onsetNotesFound.includes(note) &&
+        power[note] - (this.onsetPower[note] ?? -Infinity) >= PLUCK_RISE_DB
+    );
+    // A string re-plucked while it still rings loud barely rises, as the
+    // finger damps its old vibration. Without a clear rise, the loudest
+    // string is taken as the plucked one.
+    const loudest = Object.keys(power)[0];
+    if (
+      this.onsetFramesLeft === 0 &&
+      this.onsetNotesFound.length === 0 &&
+      rising.length === 0 &&
+      loudest
+    ) {
+      rising.push(loudest);
+    }
+    this.onsetNotesFound.push(...rising);
+    return rising;
+  }
+
+  /**
+   * Decide whether this frame starts a new pluck
+   */
+  private detectOnset(frame: AnalysisFrame, isLoudEnough: boolean): boolean {
+    const { onsetThreshold, minOnsetInterval } = this.settings;
+
+    const sorted = [...this.fluxHistory].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)] || 0;
+    const threshold = Math.max(onsetThreshold, median * this.FLUX_MEDIAN_FACTOR);
+
+    this.fluxHistory.push(frame.spectralFlux);
+    if (this.fluxHistory.length > this.FLUX_WINDOW) {
+      this.fluxHistory.shift();
+    }
+
+    if (
+      isLoudEnough &&
+      frame.spectralFlux > threshold &&
+      frame.time - this.lastOnsetTime >= minOnsetInterval
+    ) {
+      this.lastOnsetTime = frame.time;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Update adaptive noise floor based on recent quiet samples
+   */
+  private updateNoiseFloor(rms: number): void {
+    // Only update noise floor during quiet periods
+    if (rms < this.noiseFloor * 3 || this.noiseFloorSamples.length < 10) {
+      this.noiseFloorSamples.push(rms);
+      if (this.noiseFloorSamples.length > this.NOISE_FLOOR_WINDOW) {
+        this.noiseFloorSamples.shift();
+      }
+      // Noise floor is the median of recent quiet samples
+      const sorted = [...this.noiseFloorSamples].sort((a, b) => a - b);
+      this.noiseFloor = sorted[Math.floor(sorted.length / 2)] || 0.001;
+    }
+  }
+
+  /**
+   * Get the most frequently occurring note in recent history
+   */
+  private getMostConsistentNote(): string {
+    const { requiredConsistency } = this.settings;
+    if (this.noteHistory.length < requiredConsistency) return "";
+
+    // Count occurrences of each note
+    const counts: Record<string, number> = {};
+    for (const note of this.noteHistory) {
+      if (note) {
+        // Don't count empty strings
+        counts[note] = (counts[note] || 0) + 1;
+      }
+    }
+
+    // Find the note with the highest count
+    let maxCount = 0;
+    let bestNote = "";
+    for (const [note, count] of Object.entries(counts)) {
+      if (count > maxCount) {
+        maxCount = count;
+        bestNote = note;
+      }
+    }
+
+    // Only return if we have enough consistency
+    return maxCount >= requiredConsistency ? bestNote : "";
+  }
+
+  /**
+   * Get every note that appears in enough recent chord frames to be trusted
+   */
+  private getConsistentChordNotes(): string[] {
+    const { requiredConsistency } = this.settings;
+    if (this.chordHistory.length < requiredConsistency) return [];
+
+    const counts: Record<string, number> = {};
+    for (const chord of this.chordHistory) {
+      for (const note of chord) {
+        counts[note] = (counts[note] || 0) + 1;
+      }
+    }
+
+    return Object.entries(counts)
+      .filter(([, count]) => count >= requiredConsistency)
+      .sort((a, b) => b[1] - a[1])
+      .map(([note]) => note);
+  }
+
+  /**
+   * Get median frequency from recent history (reduces jitter)
+   */
+  private getMedianFrequency(): number {
+    if (this.frequencyHistory.length === 0) return 0;
+    const sorted = [...this.frequencyHistory].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  /**
+   * Map spectral peaks (strongest first) to distinct lyre notes.
+   * Used to hear several strings at once (e.g. melody and bass together),
+   * which a single autocorrelation period cannot represent.
+   * Overtones of a stronger string (F3's F4 and C5) are not strings of
+   * their own, so they are skipped - unless the peak is louder than an
+   * overtone would be, or the current step asks for that note.
+   */
+  private peaksToLyreNotes(peaks: SpectralPeak[]): string[] {
+    const notes: string[] = [];
+    const accepted: SpectralPeak[] = [];
+    for (const peak of peaks) {
+      const note = this.frequencyToLyreNote(peak.frequency);
+      if (!note) continue;
+
+      const isOvertone =
+        !this.expectedNotes.includes(note) &&
+        accepted.some((fundamental) => {
+          const harmonic = Math.round(peak.frequency / fundamental.frequency);
+          if (harmonic < 2) return false;
+          const cents =
+            1200 *
+            Math.log2(peak.frequency / (fundamental.frequency * harmonic));
+          const harmonicLevel =
+            fundamental.power -
+            HARMONIC_ROLLOFF_DB_PER_OCTAVE * Math.log2(harmonic);
+          return (
+            Math.abs(cents) <= HARMONIC_TOLERANCE_CENTS &&
+            peak.power <= harmonicLevel
+          );
+        });
+      if (isOvertone) continue;
+
+      accepted.push(peak);
+      if (!notes.includes(note)) {
+        notes.push(note);
+        if (notes.length >= this.settings.maxPolyNotes) break;
+      }
+    }
+    return notes;
+  }
+
+  /**
+   * Convert frequency to a lyre harp note using cents-based tolerance
+   * Only returns strings of the current instrument
+   * Uses musical cents for more accurate pitch matching
+   */
+  private frequencyToLyreNote(frequency: number): string {
+    if (
+      frequency < this.range.minFrequency ||
+      frequency > this.range.maxFrequency
+    ) {
+      return "";
+    }
+
+    let minCents = Infinity;
+    let bestNote = "";
+
+    // Only check against the instrument's strings, centered where
+    // calibration measured them
+    for (const noteName of this.strings) {
+      const noteFreq =
+        this.calibration[noteName]?.frequency ?? this.noteFrequencies[noteName];
+      if (!noteFreq) continue;
+
+      // Calculate difference in cents (1200 cents = 1 octave)
+      // cents = 1200 * log2(f1/f2)
+      const cents = Math.abs(1200 * Math.log2(frequency / noteFreq));
+
+      if (cents < minCents) {
+        minCents = cents;
+        bestNote = noteName;
+      }
+    }
+
+    // Only accept if within tolerance
+    if (minCents > this.settings.centsTolerance) {
+      return "";
+    }
+
+    return bestNote;
+  }
+}
@@ -0,0 +1,248 @@
+import { AudioConfig, getDefaultConfig, sanitizeConfig } from "./audioConfig";
+
+/**
+ * Named set of audio settings, e.g. for one microphone in one room
+ */
+export interface AudioProfile {
+  id: string;
+  name: string;
+  deviceId?: string; // Input device that selects this profile automatically
+  config: AudioConfig;
+}
+
+export interface ProfileStore {
+  activeId: string;
+  profiles: AudioProfile[];
+}
+
+export class InvalidProfileError extends Error {
+  constructor(reason: string) {
+    super(`Invalid profile file: ${reason}`);
+    this.name = "InvalidProfileError";
+  }
+}
+
+const STORAGE_KEY = "lyrehero-audio-profiles";
+// Single config saved before profiles existed, migrated on first load
+const LEGACY_CONFIG_KEY = "lyrehero-audio-config";
+// Marks exported files so unrelated JSON is rejected on import
+const EXPORT_FORMAT = "lyrehero-audio-profiles";
+const EXPORT_VERSION = 1;
+
+const createProfileId = (): string =>
+  `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createProfile = (name: string, config: AudioConfig): AudioProfile => ({
+  id: createProfileId(),
+  name,
+  config,
+});
+
+const sanitizeProfile = (saved: unknown): AudioProfile | null => {
+  if (typeof saved !== "object" || !saved) return null;
+  const { id, name, deviceId, config } = saved as Record<string, unknown>;
+  return {
+    id: typeof id === "string" && id ? id : createProfileId(),
+    name:
+      typeof name === "string" && name.trim() ? name.trim() : "Imported profile",
+    deviceId: typeof deviceId === "string" ? deviceId : undefined,
+    config: sanitizeConfig(config),
+  };
+};
+
+const sanitizeProfiles = (saved: unknown): AudioProfile[] =>
+  (Array.isArray(saved) ? saved : [])
+    .map(sanitizeProfile)
+    .filter((profile): profile is AudioProfile => profile !== null);
+
+const loadLegacyConfig = (): AudioConfig => {
+  try {
+    const saved = localStorage.getItem(LEGACY_CONFIG_KEY);
+    if (saved) return sanitizeConfig(JSON.parse(saved));
+  } catch (e) {
+    console.warn("Failed to load audio config from localStorage:", e);
+  }
+  return getDefaultConfig();
+};
+
+/**
+ * All profiles, creating a "Default" profile from the old single config
+ * on first start
+ */
+export const loadProfiles = (): ProfileStore => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      const profiles = sanitizeProfiles(parsed.profiles);
+      if (profiles.length > 0) {
+        const activeId = profiles.some(
+          (profile) => profile.id === parsed.activeId
+        )
+          ? parsed.activeId
+          : profiles[0].id;
+        return { activeId, profiles };
+      }
+    }
+  } catch (e) {
+    console.warn("Failed to load audio profiles from localStorage:", e);
+  }
+
+  const profile = createProfile("Default", loadLegacyConfig());
+  return { activeId: profile.id, profiles: [profile] };
+};
+
+export const saveProfiles = (store: ProfileStore): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Failed to save audio profiles to localStorage:", e);
+  }
+};
+
+export const getActiveProfile = (store: ProfileStore): AudioProfile =>
+  store.profiles.find((profile) => profile.id === store.activeId) ??
+  store.profiles[0];
+
+/**
+ * Settings of the active profile, for screens that only read them
+ */
+export const loadActiveConfig = (): AudioConfig =>
+  getActiveProfile(loadProfiles()).config;
+
+export const setActiveProfile = (
+  store: ProfileStore,
+  id: string
+): ProfileStore =>
+  store.profiles.some((profile) => profile.id === id)
+    ? { ...store, activeId: id }
+    : store;
+
+const updateProfile = (
+  store: ProfileStore,
+  id: string,
+  changes: Partial<AudioProfile>
+): ProfileStore => ({
+  ...store,
+  profiles: store.profiles.map((profile) =>
+    profile.id === id ? { ...profile, ...changes } : profile
+  ),
+});
+
+export const updateActiveConfig = (
+  store: ProfileStore,
+  config: AudioConfig
+): ProfileStore => updateProfile(store, store.activeId, { config });
+
+export const renameProfile = (
+  store: ProfileStore,
+  id: string,
+  name: string
+): ProfileStore =>
+  name.trim() ? updateProfile(store, id, { name: name.trim() }) : store;
+
+/**
+ * Copy a profile (without its device) and make the copy active
+ */
+export const duplicateProfile = (
+  store: ProfileStore,
+  id: string
+): ProfileStore => {
+  const source = store.profiles.find((profile) => profile.id === id);
+  if (!source) return store;
+  const copy = createProfile(`${source.name} (copy)`, {
+    ...source.config,
+    stringCalibration: { ...source.config.stringCalibration },
+  });
+  return { activeId: copy.id, profiles: [...store.profiles, copy] };
+};
+
+/**
+ * Remove a profile; the last one cannot be deleted
+ */
+export const deleteProfile = (
+  store: ProfileStore,
+  id: string
+): ProfileStore => {
+  const profiles = store.profiles.filter((profile) => profile.id !== id);
+  if (profiles.length === 0) return store;
+  const activeId = store.activeId === id ? profiles[0].id : store.activeId;
+  return { activeId, profiles };
+};
+
+/**
+ * Tie a profile to an input device. A device belongs to one profile at most.
+ */
+export const assignDevice = (
+  store: ProfileStore,
+  id: string,
+  deviceId: string | undefined
+): ProfileStore => ({
+  ...store,
+  profiles: store.profiles.map((profile) => {
+    if (profile.id === id) return { ...profile, deviceId };
+    if (deviceId && profile.deviceId === deviceId) {
+      return { ...profile, deviceId: undefined };
+    }
+    return profile;
+  }),
+});
+
+export const findProfileForDevice = (
+  store: ProfileStore,
+  deviceId: string | null
+): AudioProfile | undefined =>
+  deviceId
+    ? store.profiles.find((profile) => profile.deviceId === deviceId)
+    : undefined;
+
+/**
+ * JSON file contents for the given profiles
+ */
+export const exportProfiles = (profiles: AudioProfile[]): string =>
+  JSON.stringify(
+    { format: EXPORT_FORMAT, version: EXPORT_VERSION, profiles },
+    null,
+    2
+  );
+
+/**
+ * Add the profiles from an exported file. Imported profiles get new IDs so
+ * they never overwrite existing ones; device IDs are dropped because they
+ * differ between computers.
+ * @throws InvalidProfileError if the file is not an exported profile list
+ */
+export const importProfiles = (
+  store: ProfileStore,
+  json: string
+): { store: ProfileStore; imported: AudioProfile[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new InvalidProfileError("not a JSON file");
+  }
+  const { format, version, profiles } =
+    typeof parsed === "object" && parsed
+      ? (parsed as Record<string, unknown>)
+      : {};
+  if (format !== EXPORT_FORMAT || !Array.isArray(profiles)) {
+    throw new InvalidProfileError("not a Lyre Hero profile export");
+  }
+  if (Number(version) > EXPORT_VERSION) {
+    throw new InvalidProfileError(`made by a newer version (format ${version})`);
+  }
+
+  const imported = sanitizeProfiles(profiles).map((profile) => ({
+    ...profile,
+    id: createProfileId(),
+    deviceId: undefined,
+  }));
+  if (imported.length === 0) {
+    throw new InvalidProfileError("no profiles in file");
+  }
+  return {
+    store: { ...store, profiles: [...store.profiles, ...imported] },
+    imported,
+  };
+};
@@ -0,0 +1,159 @@
+export type RhythmGrade = "perfect" | "good" | "early" | "late" | "miss";
+
+export const RHYTHM_GRADES: RhythmGrade[] = [
+  "perfect",
+  "good",
+  "early",
+  "late",
+  "miss",
+];
+
+// Largest offset from the beat (ms) for each grade. Plucks further away
+// than HIT_WINDOW_MS don't belong to the note at all.
+export const PERFECT_WINDOW_MS = 60;
+export const GOOD_WINDOW_MS = 120;
+export const HIT_WINDOW_MS = 250;
+
+/**
+ * A note the student should play, at milliseconds from the start of the run
+ */
+export interface ExpectedStep {
+  index: number;
+  timeMs: number;
+  notes: string[]; // Every string that has to be plucked, e.g. melody + bass
+}
+
+export interface RhythmResult {
+  index: number;
+  grade: RhythmGrade;
+  offsetMs: number | null; // Positive = late, null for a miss
+}
+
+export interface RhythmSummary {
+  counts: Record<RhythmGrade, number>;
+  total: number;
+  hitRate: number; // 0-1, notes played at all
+  onTimeRate: number; // 0-1, notes graded perfect or good
+  meanOffsetMs: number | null; // Positive = late on average
+  spreadMs: number | null; // Standard deviation of the offsets
+}
+
+/**
+ * Grade of a pluck that landed `offsetMs` after its beat
+ */
+export const gradeOffset = (offsetMs: number): RhythmGrade => {
+  const distance = Math.abs(offsetMs);
+  if (distance <= PERFECT_WINDOW_MS) return "perfect";
+  if (distance <= GOOD_WINDOW_MS) return "good";
+  if (distance <= HIT_WINDOW_MS) return offsetMs < 0 ? "early" : "late";
+  return "miss";
+};
+
+/**
+ * Matches plucks to the notes of a song played against a clock.
+ * Each pluck goes to the nearest ungraded step that needs that string;
+ * a step is graded by its worst-timed string once all are plucked, or as
+ * a miss once its window has passed.
+ * Pure, like the NoteEventDetector, so it also runs under Node.
+ */
+export class RhythmScorer {
+  private steps: ExpectedStep[];
+  // Offsets of the strings plucked so far, per step index
+  private heard = new Map<number, Map<string, number>>();
+  private results = new Map<number, RhythmResult>();
+
+  constructor(steps: ExpectedStep[]) {
+    this.steps = [...steps].sort((a, b) => a.timeMs - b.timeMs);
+  }
+
+  /**
+   * Record a pluck. Returns the step it completed, if any.
+   */
+  noteOn(note: string, timeMs: number): RhythmResult | null {
+    let best: ExpectedStep | null = null;
+    for (const step of this.steps) {
+      if (this.results.has(step.index) || !step.notes.includes(note)) continue;
+      if (this.heard.get(step.index)?.has(note)) continue;
+      const distance = Math.abs(timeMs - step.timeMs);
+      if (distance > HIT_WINDOW_MS) continue;
+      if (!best || distance < Math.abs(timeMs - best.timeMs)) best = step;
+    }
+    if (!best) return null;
+
+    const heard = this.heard.get(best.index) ?? new Map<string, number>();
+    heard.set(note, timeMs - best.timeMs);
+    this.heard.set(best.index, heard);
+    if (heard.size < best.notes.length) return null;
+
+    const offsets = [...heard.values()];
+    const worst = offsets.reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+    return this.grade(best.index, gradeOffset(worst), worst);
+  }
+
+  /**
+   * Grade every step whose window closed before `timeMs` as a miss
+   */
+  advance(timeMs: number): RhythmResult[] {
+    const missed: RhythmResult[] = [];
+    for (const step of this.steps) {
+      if (step.timeMs + HIT_WINDOW_MS >= timeMs) break;
+      if (this.results.has(step.index)) continue;
+      missed.push(this.grade(step.index, "miss", null));
+    }
+    return missed;
+  }
+
+  isDone(): boolean {
+    return this.results.size === this.steps.length;
+  }
+
+  getResults(): RhythmResult[] {
+    return [...this.results.values()].sort((a, b) => a.index - b.index);
+  }
+
+  private grade(
+    index: number,
+    grade: RhythmGrade,
+    offsetMs: number | null
+  ): RhythmResult {
+    const result = { index, grade, offsetMs };
+    this.results.set(index, result);
+    this.heard.delete(index);
+    return result;
+  }
+}
+
+/**
+ * Accuracy and timing tendencies of a finished run
+ */
+export const summarizeRhythm = (results: RhythmResult[]): RhythmSummary => {
+  const counts = Object.fromEntries(
+    RHYTHM_GRADES.map((grade) => [grade, 0])
+  ) as Record<RhythmGrade, number>;
+  for (const result of results) counts[result.grade]++;
+
+  const offsets = results
+    .map((result) => result.offsetMs)
+    .filter((offset): offset is number => offset !== null);
+  const total = results.length;
+  const mean =
+    offsets.length > 0
+      ? offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length
+      : null;
+  const spread =
+    mean !== null
+      ? Math.sqrt(
+          offsets.reduce((sum, offset) => sum + (offset - mean) ** 2, 0) /
+            offsets.length
+        )
+      : null;
+
+  return {
+    counts,
+    total,
+    hitRate: total > 0 ? offsets.length / total : 0,
+    onTimeRate: total > 0 ? (counts.perfect + counts.good) / total : 0,
+    meanOffsetMs: mean,
+    spreadMs: spread,
+  };
+};
@@ -0,0 +1,257 @@
+import { Note, NoteDuration, Song } from "../types";
+import { getOutOfRangeNotes } from "./instruments";
+import { createRandom } from "./karplusStrong";
+import { noteNameToMidi } from "./pitch";
+import { NOTE_DURATIONS, getSongProblems } from "./songValidation";
+
+export type SongDifficulty = Song["difficulty"];
+
+export const SONG_DIFFICULTIES: SongDifficulty[] = ["Easy", "Medium", "Hard"];
+
+export interface SongRequest {
+  prompt: string; // A title or a mood, e.g. "Autumn rain"
+  strings: readonly string[]; // Pitch of every tuned string, lowest first
+  difficulty: SongDifficulty;
+}
+
+/**
+ * Something that writes songs: a model behind an API, or a local
+ * generator. Providers return the song as JSON text and don't need to
+ * validate it; generateSong() does.
+ */
+export interface SongProvider {
+  id: string;
+  name: string;
+  generateSong(request: SongRequest): Promise<string>;
+}
+
+export class SongGenerationError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(problems.length > 0 ? `${message}: ${problems.join("; ")}` : message);
+    this.name = "SongGenerationError";
+  }
+}
+
+/**
+ * Instructions for a language model, listing the notes the lyre can play
+ */
+export const buildSongPrompt = (request: SongRequest): string =>
+  [
+    `Write a ${request.difficulty.toLowerCase()} melody for a lyre harp, inspired by: "${request.prompt}".`,
+    `Use only these notes, one per string: ${request.strings.join(", ")}.`,
+    `Each step has a melody "note", an optional "bassNote" below it and a "duration" of ${NOTE_DURATIONS.map((d) => `"${d}"`).join(", ")} (whole, half, quarter, eighth).`,
+    "Give the song a title, a bpm between 60 and 140 and a timeSignature such as 3/4 or 4/4, and fill every bar.",
+    request.difficulty === "Easy"
+      ? "Keep it to about 24 steps, mostly stepwise, without bass notes."
+      : request.difficulty === "Medium"
+      ? "Use about 40 steps with a bass note on most downbeats."
+      : "Use about 60 steps with leaps, eighth notes and a bass line.",
+  ].join("\n");
+
+/**
+ * The song fields of parsed JSON. Values are checked afterwards by
+ * getSongProblems; anything else in the data is dropped.
+ */
+const toSong = (data: unknown, difficulty: SongDifficulty): Song => {
+  if (typeof data !== "object" || data === null) {
+    throw new SongGenerationError("The provider did not return a song");
+  }
+  const raw = data as Record<string, unknown>;
+  const notes = Array.isArray(raw.notes) ? raw.notes : [];
+  const song: Song = {
+    title: typeof raw.title === "string" ? raw.title.trim() : "",
+    difficulty: SONG_DIFFICULTIES.includes(raw.difficulty as SongDifficulty)
+      ? (raw.difficulty as SongDifficulty)
+      : difficulty,
+    notes: notes.map((step): Note => {
+      const rawStep = (step ?? {}) as Record<string, unknown>;
+      return {
+        note: rawStep.note as string,
+        ...(rawStep.bassNote ? { bassNote: rawStep.bassNote as string } : {}),
+        ...(typeof rawStep.lyric === "string" && rawStep.lyric
+          ? { lyric: rawStep.lyric }
+          : {}),
+        ...(rawStep.duration !== undefined
+          ? { duration: rawStep.duration as NoteDuration }
+          : {}),
+      };
+    }),
+  };
+  if (typeof raw.artist === "string" && raw.artist) song.artist = raw.artist;
+  if (raw.bpm !== undefined) song.bpm = raw.bpm as number;
+  if (raw.timeSignature !== undefined) {
+    song.timeSignature = raw.timeSignature as Song["timeSignature"];
+  }
+  if (typeof raw.anacrusis === "number" && Number.isFinite(raw.anacrusis)) {
+    song.anacrusis = raw.anacrusis;
+  }
+  return song;
+};
+
+/**
+ * A song from a provider's JSON, checked like the presets and against
+ * the strings of the lyre
+ * @throws SongGenerationError listing every problem found
+ */
+export const parseGeneratedSong = (
+  json: string,
+  request: SongRequest
+): Song => {
+  // Models sometimes wrap JSON in a Markdown code fence
+  const text = json.trim().replace(/^```(?:json)?\s*|\s*```$/g, "");
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SongGenerationError("The provider returned invalid JSON");
+  }
+
+  const song = toSong(data, request.difficulty);
+  const problems = getSongProblems(song);
+  if (problems.length === 0) {
+    const outOfRange = getOutOfRangeNotes(song, request.strings);
+    if (outOfRange.length > 0) {
+      problems.push(`No string for ${outOfRange.join(", ")}`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new SongGenerationError(
+      `"${song.title || "Untitled"}" can't be played`,
+      problems
+    );
+  }
+  return song;
+};
+
+/**
+ * Ask a provider for a song and validate it
+ * @throws SongGenerationError when the provider fails or the song is invalid
+ */
+export const generateSong = async (
+  provider: SongProvider,
+  request: SongRequest
+): Promise<Song> => {
+  let json: string;
+  try {
+    json = await provider.generateSong(request);
+  } catch (e) {
+    if (e instanceof SongGenerationError) throw e;
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new SongGenerationError(`${provider.name} failed: ${reason}`);
+  }
+  return parseGeneratedSong(json, request);
+};
+
+// FNV-1a, so the same prompt always seeds the same song
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const MOCK_BARS: Record<SongDifficulty, number> = {
+  Easy: 8,
+  Medium: 12,
+  Hard: 16,
+};
+
+// Durations in eighths that may start a bar position, per difficulty
+const MOCK_RHYTHMS: Record<SongDifficulty, number[][]> = {
+  Easy: [[2], [2], [2], [4]],
+  Medium: [[2], [2], [4], [1, 1]],
+  Hard: [[2], [1, 1], [1, 1], [4]],
+};
+
+// Strings moved between melody notes
+const MOCK_STEPS = [-2, -1, -1, 1, 1, 2];
+const MOCK_LEAPS = [-4, -2, -1, -1, 1, 1, 2, 3];
+
+const EIGHTHS_TO_DURATION: Record<number, NoteDuration> = {
+  1: "1/8",
+  2: "1/4",
+  4: "1/2",
+  8: "1",
+};
+
+const sum = (values: number[]): number =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Offline provider: a seeded random walk over the lyre's strings, so the
+ * same request always gives the same song. Used without an API key and
+ * for testing the flow.
+ */
+export class MockSongProvider implements SongProvider {
+  readonly id = "mock";
+  readonly name = "Offline composer";
+
+  async generateSong(request: SongRequest): Promise<string> {
+    const { prompt, strings, difficulty } = request;
+    if (strings.length === 0) {
+      throw new SongGenerationError("The lyre has no strings");
+    }
+    const random = createRandom(hashString(`${difficulty}:${prompt.trim()}`));
+    const pick = <T>(items: readonly T[]): T =>
+      items[Math.floor(random() * items.length)];
+
+    const beats = random() < 0.35 ? 3 : 4;
+    const barEighths = beats * 2;
+    const bpm = 72 + Math.round(random() * 8) * 6;
+
+    // Start an octave (seven strings) up on larger lyres to leave room
+    // for a bass below the melody
+    const tonic = strings.length >= 12 ? 7 : 0;
+    const low = Math.max(0, tonic - 2);
+    const high = Math.min(strings.length - 1, tonic + 7);
+    const bassIndex = strings.findIndex(
+      (note) => noteNameToMidi(note) === noteNameToMidi(strings[tonic]) - 12
+    );
+    const withBass = difficulty !== "Easy" && bassIndex >= 0;
+    const steps = difficulty === "Hard" ? MOCK_LEAPS : MOCK_STEPS;
+
+    const notes: Note[] = [];
+    let position = tonic;
+    const bars = MOCK_BARS[difficulty];
+    for (let bar = 0; bar < bars; bar++) {
+      const isLastBar = bar === bars - 1;
+      let filled = 0;
+      while (filled < barEighths) {
+        const remaining = barEighths - filled;
+        // The last bar ends on the tonic, held to the barline
+        const isFinal = isLastBar && (remaining <= 4 || remaining === 8);
+        const rhythm = isFinal
+          ? [remaining]
+          : pick(MOCK_RHYTHMS[difficulty].filter((r) => sum(r) <= remaining));
+        for (const eighths of rhythm) {
+          if (isFinal) {
+            position = tonic;
+          } else if (notes.length > 0) {
+            // Turn back at the edges of the melody range
+            const step = pick(steps);
+            const next = position + step;
+            position = next < low || next > high ? position - step : next;
+            position = Math.min(high, Math.max(low, position));
+          }
+          notes.push({
+            note: strings[position],
+            ...(withBass && filled === 0 ? { bassNote: strings[bassIndex] } : {}),
+            duration: EIGHTHS_TO_DURATION[eighths] ?? "1/4",
+          });
+          filled += eighths;
+        }
+      }
+    }
+
+    const title = prompt.trim() || "Untitled";
+    return JSON.stringify({
+      title: title.charAt(0).toUpperCase() + title.slice(1),
+      difficulty,
+      bpm,
+      timeSignature: { beats, beatUnit: 4 },
+      notes,
+    });
+  }
+}
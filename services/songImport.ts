@@ -0,0 +1,291 @@
+import {
+  InstrumentProfile,
+  Note,
+  NoteDuration,
+  Song,
+  TempoChange,
+  TimeSignature,
+} from "../types";
+import { NoteRangeIssue, getNoteRangeIssue } from "./instruments";
+import {
+  formatPitch,
+  midiToPitch,
+  noteNameToMidi,
+  pitchToMidi,
+  tryParsePitch,
+} from "./pitch";
+import { BEAT_UNITS } from "./songValidation";
+import { MAX_BPM, MIN_BPM } from "./timing";
+
+// Importers (MusicXML, MIDI) reduce a score to these before building steps
+
+/**
+ * A note read from a file, timed in quarter notes from the start
+ */
+export interface ImportedNote {
+  time: number;
+  duration: number;
+  note: string; // e.g. "Bb3", as spelled in the file where it has spelling
+  lyric?: string;
+}
+
+/**
+ * A tempo read from a file, in quarter notes per minute from `time` on
+ */
+export interface ImportedTempo {
+  time: number;
+  bpm: number;
+}
+
+/**
+ * Result of an import, before it is added to the library
+ */
+export interface ImportedSong {
+  song: Song;
+  source: string; // What was read, e.g. "Piano (part 1)"
+  warnings: string[]; // What was approximated or dropped
+}
+
+export interface RangeReport {
+  issues: { note: string; issue: NoteRangeIssue }[]; // Distinct notes, in order
+  unplayable: number; // Steps with a note no string plays
+}
+
+export interface TranspositionSuggestion {
+  semitones: number; // Positive = up
+  unplayable: number; // Steps still unplayable afterwards
+}
+
+// Written note lengths in quarter notes
+const DURATION_QUARTERS: [NoteDuration, number][] = [
+  ["1", 4],
+  ["1/2", 2],
+  ["1/4", 1],
+  ["1/8", 0.5],
+];
+
+// Notes this close (in quarter notes) count as simultaneous
+const ONSET_TOLERANCE = 1 / 32;
+const MAX_TRANSPOSITION = 12;
+
+/**
+ * Nearest written duration to a length in quarter notes, comparing
+ * ratios so a dotted half (3) becomes a half, not a whole
+ */
+export const roundDuration = (
+  quarters: number
+): { duration: NoteDuration; isExact: boolean } => {
+  let best = DURATION_QUARTERS[0];
+  for (const candidate of DURATION_QUARTERS) {
+    const distance = Math.abs(Math.log2(quarters / candidate[1]));
+    if (distance < Math.abs(Math.log2(quarters / best[1]))) best = candidate;
+  }
+  return {
+    duration: best[0],
+    isExact: Math.abs(quarters - best[1]) < ONSET_TOLERANCE,
+  };
+};
+
+const toMidi = (note: string): number => {
+  const pitch = tryParsePitch(note);
+  return pitch ? pitchToMidi(pitch) : -Infinity;
+};
+
+/**
+ * Song steps from a melody and an optional bass line. Each melody onset
+ * becomes a step (the top note of a chord) that lasts until the next
+ * onset, so rests lengthen the note before them. A bass note joins the
+ * step it starts with; the lowest wins.
+ */
+export const buildSteps = (
+  melody: ImportedNote[],
+  bass: ImportedNote[] = []
+): { notes: Note[]; times: number[]; warnings: string[] } => {
+  const onsets: ImportedNote[] = [];
+  const chords = new Set<number>();
+  for (const note of [...melody].sort((a, b) => a.time - b.time)) {
+    const index = onsets.length - 1;
+    const last = onsets[index];
+    if (last && note.time - last.time < ONSET_TOLERANCE) {
+      chords.add(index);
+      if (toMidi(note.note) > toMidi(last.note)) {
+        onsets[index] = { ...note, lyric: last.lyric ?? note.lyric };
+      }
+      continue;
+    }
+    onsets.push(note);
+  }
+
+  let rounded = 0;
+  const usedBass = new Set<ImportedNote>();
+  const notes = onsets.map((step, index): Note => {
+    const next = onsets[index + 1];
+    const length = next ? next.time - step.time : step.duration;
+    const { duration, isExact } = roundDuration(length);
+    if (!isExact) rounded++;
+
+    const bassNotes = bass.filter(
+      (note) => Math.abs(note.time - step.time) < ONSET_TOLERANCE
+    );
+    bassNotes.forEach((note) => usedBass.add(note));
+    const bassNote = bassNotes.sort((a, b) => toMidi(a.note) - toMidi(b.note))[0];
+
+    return {
+      note: step.note,
+      ...(bassNote ? { bassNote: bassNote.note } : {}),
+      ...(step.lyric ? { lyric: step.lyric } : {}),
+      duration,
+    };
+  });
+  const unmatchedBass = bass.filter((note) => !usedBass.has(note)).length;
+
+  const warnings: string[] = [];
+  if (chords.size > 0) {
+    warnings.push(
+      `${chords.size} chord${chords.size === 1 ? "" : "s"} reduced to the top note`
+    );
+  }
+  if (rounded > 0) {
+    warnings.push(
+      `${rounded} note length${rounded === 1 ? "" : "s"} rounded to the nearest whole, half, quarter or eighth note`
+    );
+  }
+  if (unmatchedBass > 0) {
+    warnings.push(
+      `${unmatchedBass} bass note${unmatchedBass === 1 ? "" : "s"} between melody notes left out`
+    );
+  }
+  return { notes, times: onsets.map((step) => step.time), warnings };
+};
+
+/**
+ * Meter and tempos of an imported song. `times` are the step times from
+ * buildSteps(); a tempo change starts at the first step it reaches.
+ */
+export const getImportedTiming = (
+  times: number[],
+  tempos: ImportedTempo[],
+  timeSignature: TimeSignature | undefined,
+  pickupQuarters: number
+): {
+  timing: Pick<Song, "bpm" | "timeSignature" | "anacrusis" | "tempoChanges">;
+  warnings: string[];
+} => {
+  const warnings: string[] = [];
+  if (timeSignature && !BEAT_UNITS.includes(timeSignature.beatUnit)) {
+    warnings.push(
+      `Time signature ${timeSignature.beats}/${timeSignature.beatUnit} isn't supported; using 4/4`
+    );
+    timeSignature = undefined;
+  }
+  const beatUnit = timeSignature?.beatUnit ?? 4;
+
+  // Song tempos count the time signature's beat unit, not quarter notes
+  const toBpm = (quarterBpm: number) =>
+    Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round((quarterBpm * beatUnit) / 4)));
+  const firstTime = times[0] ?? 0;
+  const opening = tempos.filter((tempo) => tempo.time <= firstTime).pop();
+  const tempoChanges: TempoChange[] = [];
+  for (const tempo of tempos.filter((tempo) => tempo.time > firstTime)) {
+    const index = times.findIndex((time) => time >= tempo.time);
+    if (index < 0) continue;
+    const change = { index, bpm: toBpm(tempo.bpm) };
+    const previous = tempoChanges[tempoChanges.length - 1];
+    if (previous?.index === index) tempoChanges[tempoChanges.length - 1] = change;
+    else tempoChanges.push(change);
+  }
+
+  return {
+    timing: {
+      ...(opening ? { bpm: toBpm(opening.bpm) } : {}),
+      ...(timeSignature ? { timeSignature } : {}),
+      ...(timeSignature && pickupQuarters > 0
+        ? { anacrusis: (pickupQuarters * beatUnit) / 4 }
+        : {}),
+      ...(tempoChanges.length > 0 ? { tempoChanges } : {}),
+    },
+    warnings,
+  };
+};
+
+/**
+ * Rough difficulty from length, speed and hand independence
+ */
+export const estimateDifficulty = (notes: Note[]): Song["difficulty"] => {
+  const eighths = notes.filter((note) => note.duration === "1/8").length;
+  const hasBass = notes.some((note) => note.bassNote);
+  if (notes.length > 100 || eighths > notes.length * 0.3) return "Hard";
+  if (notes.length > 40 || hasBass || eighths > 0) return "Medium";
+  return "Easy";
+};
+
+/**
+ * Notes of a song the lyre can't play as set up
+ */
+export const getRangeReport = (
+  song: Song,
+  profile: InstrumentProfile,
+  tunedStrings: readonly string[]
+): RangeReport => {
+  const issues: RangeReport["issues"] = [];
+  let unplayable = 0;
+  for (const step of song.notes) {
+    let isPlayable = true;
+    for (const note of [step.note, step.bassNote]) {
+      if (!note) continue;
+      const issue = getNoteRangeIssue(note, profile, tunedStrings);
+      if (!issue) continue;
+      isPlayable = false;
+      if (!issues.some((entry) => entry.note === note)) {
+        issues.push({ note, issue });
+      }
+    }
+    if (!isPlayable) unplayable++;
+  }
+  return { issues, unplayable };
+};
+
+/**
+ * Move every note by some semitones. Notes are respelled with sharps,
+ * like the lyre's strings.
+ */
+export const transposeSong = (song: Song, semitones: number): Song => {
+  if (semitones === 0) return song;
+  const shift = (note: string) =>
+    formatPitch(midiToPitch(noteNameToMidi(note) + semitones));
+  return {
+    ...song,
+    notes: song.notes.map((step) => ({
+      ...step,
+      note: shift(step.note),
+      ...(step.bassNote ? { bassNote: shift(step.bassNote) } : {}),
+    })),
+  };
+};
+
+/**
+ * Smallest transposition (within an octave) that leaves the fewest steps
+ * unplayable, or null when the song already fits or nothing helps
+ * @throws InvalidPitchError
+ */
+export const suggestTransposition = (
+  song: Song,
+  profile: InstrumentProfile,
+  tunedStrings: readonly string[]
+): TranspositionSuggestion | null => {
+  const current = getRangeReport(song, profile, tunedStrings).unplayable;
+  if (current === 0) return null;
+
+  let best: TranspositionSuggestion = { semitones: 0, unplayable: current };
+  for (let distance = 1; distance <= MAX_TRANSPOSITION; distance++) {
+    for (const semitones of [-distance, distance]) {
+      const { unplayable } = getRangeReport(
+        transposeSong(song, semitones),
+        profile,
+        tunedStrings
+      );
+      if (unplayable < best.unplayable) best = { semitones, unplayable };
+    }
+  }
+  return best.semitones === 0 ? null : best;
+};
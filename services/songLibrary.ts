@@ -0,0 +1,288 @@
+import { PRESET_SONGS } from "../constants";
+import { LibrarySong, Song } from "../types";
+import { SONG_DIFFICULTIES } from "./songGeneration";
+import { getSongProblems, validateSong } from "./songValidation";
+
+const DB_NAME = "lyrehero-songs";
+const DB_VERSION = 1;
+// User songs and edited built-ins, keyed by song id
+const SONG_STORE = "songs";
+// Ids of built-in songs the user deleted
+const REMOVED_STORE = "removedBuiltIns";
+
+/**
+ * URL-style id part of a title, e.g. "Für Elise (simplified)" ->
+ * "fur-elise-simplified"
+ */
+const slugify = (title: string): string =>
+  title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const createSongId = (): string =>
+  `song-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Presets keep their id as long as their title doesn't change.
+// Bad song data is reported here instead of breaking the tutor later.
+const BUILT_IN_SONGS: LibrarySong[] = PRESET_SONGS.filter((song) => {
+  const problems = getSongProblems(song);
+  if (problems.length > 0) {
+    console.error(`Skipping song "${song.title}":`, problems);
+  }
+  return problems.length === 0;
+}).map((song) => ({
+  ...song,
+  id: `builtin-${slugify(song.title)}`,
+  source: "builtin",
+  createdAt: 0,
+  updatedAt: 0,
+}));
+
+/**
+ * The presets as shipped, e.g. to show while the library loads
+ */
+export const getBuiltInSongs = (): LibrarySong[] => BUILT_IN_SONGS;
+
+const isBuiltInId = (id: string): boolean =>
+  BUILT_IN_SONGS.some((song) => song.id === id);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Whether a stored record has the shape of a Song, so getSongProblems
+ * can check its values. It assumes well-formed steps and fields.
+ */
+const isSongShaped = (saved: Record<string, unknown>): boolean =>
+  typeof saved.title === "string" &&
+  SONG_DIFFICULTIES.includes(saved.difficulty as Song["difficulty"]) &&
+  Array.isArray(saved.notes) &&
+  saved.notes.every(isObject) &&
+  (saved.artist === undefined || typeof saved.artist === "string") &&
+  (saved.timeSignature === undefined || isObject(saved.timeSignature)) &&
+  (saved.tempoChanges === undefined ||
+    (Array.isArray(saved.tempoChanges) && saved.tempoChanges.every(isObject)));
+
+const sanitizeStoredSong = (saved: unknown): LibrarySong | null => {
+  if (!isObject(saved) || typeof saved.id !== "string") return null;
+  const { id, source, createdAt, updatedAt } = saved;
+  if (!isSongShaped(saved)) {
+    console.error(`Skipping saved song ${id}: not a song`);
+    return null;
+  }
+  const song = saved as unknown as Song;
+  let problems: string[];
+  try {
+    problems = getSongProblems(song);
+  } catch (e) {
+    problems = [String(e)];
+  }
+  if (problems.length > 0) {
+    console.error(`Skipping saved song "${song.title}":`, problems);
+    return null;
+  }
+  return {
+    ...song,
+    id,
+    // An edited preset that no longer ships stays as a user song
+    source: source === "builtin" && isBuiltInId(id) ? "builtin" : "user",
+    createdAt: Number(createdAt) || 0,
+    updatedAt: Number(updatedAt) || 0,
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SONG_STORE)) {
+        db.createObjectStore(SONG_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(REMOVED_STORE)) {
+        db.createObjectStore(REMOVED_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * The built-in presets merged with the user's songs, stored in IndexedDB.
+ * Songs are kept in memory and written through, so reads are synchronous.
+ * Without IndexedDB (e.g. some private windows) changes last until reload.
+ */
+export class SongLibrary {
+  private saved = new Map<string, LibrarySong>();
+  private removed = new Set<string>();
+
+  private constructor(private db: IDBDatabase | null) {}
+
+  static async open(): Promise<SongLibrary> {
+    let db: IDBDatabase;
+    try {
+      db = await openDatabase();
+    } catch (e) {
+      console.warn("Failed to open the song library in IndexedDB:", e);
+      return new SongLibrary(null);
+    }
+
+    const library = new SongLibrary(db);
+    try {
+      const transaction = db.transaction([SONG_STORE, REMOVED_STORE]);
+      const [songs, removed] = await Promise.all([
+        requestToPromise(transaction.objectStore(SONG_STORE).getAll()),
+        requestToPromise(transaction.objectStore(REMOVED_STORE).getAll()),
+      ]);
+      songs
+        .map(sanitizeStoredSong)
+        .forEach((song) => song && library.saved.set(song.id, song));
+      removed.forEach((entry: { id: string }) =>
+        library.removed.add(entry.id)
+      );
+    } catch (e) {
+      console.warn("Failed to load the song library from IndexedDB:", e);
+    }
+    return library;
+  }
+
+  /**
+   * User songs, newest first, then the built-ins in preset order
+   */
+  getSongs(): LibrarySong[] {
+    const userSongs = [...this.saved.values()]
+      .filter((song) => song.source === "user")
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const builtIns = BUILT_IN_SONGS.filter(
+      (song) => !this.removed.has(song.id)
+    ).map((song) => this.saved.get(song.id) ?? song);
+    return [...userSongs, ...builtIns];
+  }
+
+  getSong(id: string): LibrarySong | undefined {
+    return this.getSongs().find((song) => song.id === id);
+  }
+
+  /**
+   * Whether a built-in song was deleted or edited
+   */
+  hasChangedBuiltIns(): boolean {
+    return (
+      this.removed.size > 0 ||
+      [...this.saved.values()].some((song) => song.source === "builtin")
+    );
+  }
+
+  /**
+   * Add a song as a new user song
+   * @throws InvalidSongError
+   */
+  async create(song: Song): Promise<LibrarySong> {
+    validateSong(song);
+    const now = Date.now();
+    const created: LibrarySong = {
+      ...song,
+      id: createSongId(),
+      source: "user",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.saved.set(created.id, created);
+    await this.write((transaction) =>
+      transaction.objectStore(SONG_STORE).put(created)
+    );
+    return created;
+  }
+
+  /**
+   * Save changes to a song. An edited built-in keeps its id and can be
+   * reset with restoreBuiltIns(); an unknown id is added as a new song.
+   * @throws InvalidSongError
+   */
+  async update(id: string, song: Song): Promise<LibrarySong> {
+    const existing = this.getSong(id);
+    if (!existing) return this.create(song);
+    validateSong(song);
+    const updated: LibrarySong = {
+      ...song,
+      id,
+      source: existing.source,
+      createdAt: existing.createdAt,
+      updatedAt: Date.now(),
+    };
+    this.saved.set(id, updated);
+    await this.write((transaction) =>
+      transaction.objectStore(SONG_STORE).put(updated)
+    );
+    return updated;
+  }
+
+  /**
+   * Copy any song, built-in or not, as a new user song
+   */
+  async duplicate(id: string): Promise<LibrarySong | null> {
+    const source = this.getSong(id);
+    if (!source) return null;
+    return this.create({ ...source, title: `${source.title} (copy)` });
+  }
+
+  /**
+   * Remove a song. Built-ins are only hidden until restoreBuiltIns().
+   */
+  async delete(id: string): Promise<void> {
+    this.saved.delete(id);
+    const isBuiltIn = isBuiltInId(id);
+    if (isBuiltIn) this.removed.add(id);
+    await this.write((transaction) => {
+      transaction.objectStore(SONG_STORE).delete(id);
+      if (isBuiltIn) {
+        transaction.objectStore(REMOVED_STORE).put({ id, removedAt: Date.now() });
+      }
+    });
+  }
+
+  /**
+   * Bring back deleted built-ins and undo edits to them
+   */
+  async restoreBuiltIns(): Promise<void> {
+    const edited = [...this.saved.values()]
+      .filter((song) => song.source === "builtin")
+      .map((song) => song.id);
+    edited.forEach((id) => this.saved.delete(id));
+    this.removed.clear();
+    await this.write((transaction) => {
+      const songs = transaction.objectStore(SONG_STORE);
+      edited.forEach((id) => songs.delete(id));
+      transaction.objectStore(REMOVED_STORE).clear();
+    });
+  }
+
+  /**
+   * Run changes in one transaction. Failures are logged; the in-memory
+   * library keeps the change for this session.
+   */
+  private async write(apply: (transaction: IDBTransaction) => void): Promise<void> {
+    const { db } = this;
+    if (!db) return;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([SONG_STORE, REMOVED_STORE], "readwrite");
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+        apply(transaction);
+      });
+    } catch (e) {
+      console.warn("Failed to save the song library to IndexedDB:", e);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { NoteDuration, Song } from "../types";
+import { InvalidPitchError, parsePitch } from "./pitch";
+import { MAX_BPM, MIN_BPM, getTimeSignature } from "./timing";
+
+export const NOTE_DURATIONS: NoteDuration[] = ["1", "1/2", "1/4", "1/8"];
+export const BEAT_UNITS = [2, 4, 8];
+
+export class InvalidSongError extends Error {
+  constructor(readonly title: string, readonly problems: string[]) {
+    super(`Invalid song "${title}": ${problems.join("; ")}`);
+    this.name = "InvalidSongError";
+  }
+}
+
+/**
+ * Everything wrong with a song's data, as readable messages.
+ * Empty when the song can be played.
+ */
+export const getSongProblems = (song: Song): string[] => {
+  const problems: string[] = [];
+  if (!song.title?.trim()) problems.push("Missing title");
+  if (!Array.isArray(song.notes) || song.notes.length === 0) {
+    problems.push("Song has no notes");
+    return problems;
+  }
+
+  const isValidBpm = (bpm: unknown) =>
+    typeof bpm === "number" && bpm >= MIN_BPM && bpm <= MAX_BPM;
+  if (song.bpm !== undefined && !isValidBpm(song.bpm)) {
+    problems.push(`Tempo must be between ${MIN_BPM} and ${MAX_BPM} BPM`);
+  }
+
+  const { beats, beatUnit } = getTimeSignature(song);
+  if (!Number.isInteger(beats) || beats < 1 || beats > 16) {
+    problems.push("Time signature must have 1 to 16 beats per bar");
+  }
+  if (!BEAT_UNITS.includes(beatUnit)) {
+    problems.push(
+      `Time signature beat unit must be one of ${BEAT_UNITS.join(", ")}`
+    );
+  }
+  if (
+    song.anacrusis !== undefined &&
+    !(
+      typeof song.anacrusis === "number" &&
+      Number.isFinite(song.anacrusis) &&
+      song.anacrusis >= 0 &&
+      song.anacrusis < beats
+    )
+  ) {
+    problems.push("Pickup must be shorter than a bar");
+  }
+
+  song.tempoChanges?.forEach((change, index) => {
+    if (
+      !Number.isInteger(change.index) ||
+      change.index < 0 ||
+      change.index >= song.notes.length
+    ) {
+      problems.push(`Tempo change ${index + 1}: no step ${change.index + 1}`);
+    }
+    if (!isValidBpm(change.bpm)) {
+      problems.push(
+        `Tempo change ${index + 1}: tempo must be between ${MIN_BPM} and ${MAX_BPM} BPM`
+      );
+    }
+  });
+
+  song.notes.forEach((step, index) => {
+    const checkPitch = (name: unknown, role: string) => {
+      if (typeof name !== "string") {
+        problems.push(`Step ${index + 1}: ${role} must be a note name`);
+        return;
+      }
+      try {
+        parsePitch(name);
+      } catch (e) {
+        if (!(e instanceof InvalidPitchError)) throw e;
+        problems.push(`Step ${index + 1}: ${e.message}`);
+      }
+    };
+
+    checkPitch(step.note, "note");
+    if (step.bassNote !== undefined) checkPitch(step.bassNote, "bass note");
+    if (step.duration !== undefined && !NOTE_DURATIONS.includes(step.duration)) {
+      problems.push(
+        `Step ${index + 1}: duration "${step.duration}" is not one of ${NOTE_DURATIONS.join(", ")}`
+      );
+    }
+  });
+  return problems;
+};
+
+/**
+ * @throws InvalidSongError listing every problem found
+ */
+export const validateSong = (song: Song): Song => {
+  const problems = getSongProblems(song);
+  if (problems.length > 0) {
+    throw new InvalidSongError(song.title || "Untitled", problems);
+  }
+  return song;
+};
@@ -0,0 +1,165 @@
+import { Note, NoteDuration, Song, TimeSignature } from "../types";
+
+export const DEFAULT_BPM = 90;
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, beatUnit: 4 };
+export const MIN_BPM = 20;
+export const MAX_BPM = 300;
+
+// Length of each written duration as a fraction of a whole note
+const NOTE_LENGTHS: Record<NoteDuration, number> = {
+  "1": 1,
+  "1/2": 1 / 2,
+  "1/4": 1 / 4,
+  "1/8": 1 / 8,
+};
+
+/**
+ * Where a note sits in the song
+ */
+export interface TimedNote {
+  index: number;
+  beat: number; // Start, in beats from the first note
+  beats: number; // Length in beats
+  bar: number; // 1 for the first full bar, 0 for the pickup
+  beatInBar: number; // 0 on the downbeat; may be fractional
+  startMs: number; // From the first note, following tempo changes
+  durationMs: number;
+  bpm: number; // Tempo while the note sounds
+}
+
+export interface SongTiming {
+  notes: TimedNote[];
+  timeSignature: TimeSignature;
+  anacrusis: number;
+  totalBeats: number;
+  totalMs: number;
+}
+
+/**
+ * Length of a note as a fraction of a whole note. Notes without a
+ * duration are quarter notes.
+ */
+export const getNoteLength = (note: Note): number =>
+  NOTE_LENGTHS[note.duration ?? "1/4"] ?? NOTE_LENGTHS["1/4"];
+
+export const getTimeSignature = (song: Song): TimeSignature =>
+  song.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+
+/**
+ * Tempo in effect at the given note
+ */
+export const getTempoAt = (song: Song, index: number): number => {
+  let bpm = song.bpm ?? DEFAULT_BPM;
+  let changedAt = -1;
+  for (const change of song.tempoChanges ?? []) {
+    if (change.index <= index && change.index >= changedAt) {
+      bpm = change.bpm;
+      changedAt = change.index;
+    }
+  }
+  return bpm;
+};
+
+/**
+ * Bar number and position in the bar of a beat
+ */
+export const getBarPosition = (
+  beat: number,
+  timeSignature: TimeSignature,
+  anacrusis: number = 0
+): { bar: number; beatInBar: number } => {
+  if (beat < anacrusis) {
+    return { bar: 0, beatInBar: timeSignature.beats - anacrusis + beat };
+  }
+  const sinceFirstBar = beat - anacrusis;
+  return {
+    bar: Math.floor(sinceFirstBar / timeSignature.beats) + 1,
+    beatInBar: sinceFirstBar % timeSignature.beats,
+  };
+};
+
+/**
+ * Beat and millisecond position of every note of a song
+ */
+export const getSongTiming = (song: Song): SongTiming => {
+  const timeSignature = getTimeSignature(song);
+  const anacrusis = song.anacrusis ?? 0;
+
+  let beat = 0;
+  let ms = 0;
+  const notes = song.notes.map((note, index): TimedNote => {
+    const beats = getNoteLength(note) * timeSignature.beatUnit;
+    const bpm = getTempoAt(song, index);
+    const durationMs = (beats * 60000) / bpm;
+    const timed: TimedNote = {
+      index,
+      beat,
+      beats,
+      ...getBarPosition(beat, timeSignature, anacrusis),
+      startMs: ms,
+      durationMs,
+      bpm,
+    };
+    beat += beats;
+    ms += durationMs;
+    return timed;
+  });
+
+  return { notes, timeSignature, anacrusis, totalBeats: beat, totalMs: ms };
+};
+
+/**
+ * Index of the note sounding at the given time, -1 before the first
+ * note and after the last one
+ */
+export const getNoteIndexAtTime = (timing: SongTiming, ms: number): number => {
+  if (ms < 0 || ms >= timing.totalMs) return -1;
+  let low = 0;
+  let high = timing.notes.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (timing.notes[mid].startMs <= ms) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+/**
+ * Song position in beats at the given time, following tempo changes.
+ * Negative before the first note (at the starting tempo), and past
+ * totalBeats after the last one.
+ */
+export const getBeatAtTime = (timing: SongTiming, ms: number): number => {
+  const { notes } = timing;
+  if (notes.length === 0) return 0;
+  if (ms < 0) return (ms / 60000) * notes[0].bpm;
+  if (ms >= timing.totalMs) {
+    const last = notes[notes.length - 1];
+    return timing.totalBeats + ((ms - timing.totalMs) / 60000) * last.bpm;
+  }
+  const note = notes[getNoteIndexAtTime(timing, ms)];
+  return note.beat + ((ms - note.startMs) / note.durationMs) * note.beats;
+};
+
+/**
+ * Milliseconds from the first note to the given beat; the inverse of
+ * getBeatAtTime
+ */
+export const getTimeAtBeat = (timing: SongTiming, beat: number): number => {
+  const { notes } = timing;
+  if (notes.length === 0) return 0;
+  if (beat < 0) return (beat * 60000) / notes[0].bpm;
+  if (beat >= timing.totalBeats) {
+    const last = notes[notes.length - 1];
+    return timing.totalMs + ((beat - timing.totalBeats) * 60000) / last.bpm;
+  }
+  let low = 0;
+  let high = notes.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (notes[mid].beat <= beat) low = mid;
+    else high = mid - 1;
+  }
+  const note = notes[low];
+  return note.startMs + ((beat - note.beat) / note.beats) * note.durationMs;
+};
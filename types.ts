@@ -1,22 +1,85 @@
 export type NoteDuration = '1' | '1/2' | '1/4' | '1/8';
 
+export type NoteLetter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+
+// A parsed note name (see services/pitch.ts), e.g. "F#4" or "Fis4"
+export interface Pitch {
+  letter: NoteLetter;
+  accidental: number; // Semitones: -2 (double flat) ... +2 (double sharp)
+  octave: number; // Scientific pitch notation, C4 = middle C
+}
+
 export interface Note {
-  note: string; // e.g., "C4", "A3" - right hand melody
+  note: string; // Pitch name, e.g. "C4", "F#4", "Bb3" - right hand melody
   bassNote?: string; // e.g., "C3" - left hand bass (optional)
   lyric?: string;
   duration?: NoteDuration; // Standard music notation: "1" (whole), "1/2" (half), "1/4" (quarter), "1/8" (eighth)
 }
 
+// Beats per bar and the note value that counts as one beat, e.g. 3/4 or 3/8
+export interface TimeSignature {
+  beats: number;
+  beatUnit: number; // 2 (half), 4 (quarter) or 8 (eighth)
+}
+
+// New tempo from the note at `index` on
+export interface TempoChange {
+  index: number;
+  bpm: number;
+}
+
 export interface Song {
   title: string;
   artist?: string;
   difficulty: 'Easy' | 'Medium' | 'Hard';
+  bpm?: number; // Beats per minute at the start, a beat being the time signature's beatUnit
+  timeSignature?: TimeSignature; // Defaults to 4/4
+  anacrusis?: number; // Beats in the pickup bar before the first full bar
+  tempoChanges?: TempoChange[];
   notes: Note[];
 }
 
+// A song in the library (services/songLibrary.ts)
+export interface LibrarySong extends Song {
+  id: string; // Stable across reloads, e.g. "builtin-ode-to-joy"
+  source: 'builtin' | 'user';
+  createdAt: number; // Milliseconds since the epoch, 0 for built-ins
+  updatedAt: number;
+}
+
+export interface InstrumentProfile {
+  id: string; // e.g. "19"
+  name: string; // e.g. "19-string lyre harp"
+  strings: string[]; // Natural note of each string, lowest first
+  lowestNote: string;
+  highestNote: string;
+  defaultTuning: string; // Tuning id, e.g. "C"
+}
+
+export interface Tuning {
+  id: string; // e.g. "G"
+  name: string; // e.g. "G major"
+  sharps: string[]; // Letters tuned a semitone up, in key signature order
+}
+
+// How a player has set up their lyre: retuned strings plus engaged levers
+export interface InstrumentSetup {
+  tuningId: string;
+  levers: string[]; // Natural names of strings with the sharping lever up
+}
+
+// How one string measured during per-string calibration (medians while ringing)
+export interface StringCalibration {
+  frequency: number; // Center frequency in Hz
+  rms: number; // Typical volume
+  clarity: number; // Typical pitch clarity
+}
+
 export enum AppState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
+  TUNER = 'TUNER',
+  EDITING = 'EDITING',
   GENERATING = 'GENERATING',
   ERROR = 'ERROR'
 }